@@ -6,24 +6,79 @@ import Link from "next/link";
 import {
 	AlertCircle,
 	ArrowLeft,
+	Camera,
+	CameraOff,
+	Check,
 	CheckCircle,
+	Clock,
+	Crop,
 	Download,
 	Eye,
+	EyeOff,
 	FileVideo,
 	Images,
+	Layers,
+	Link2,
 	Loader2,
+	Mic,
+	MousePointer2,
+	PenTool,
 	RotateCcw,
+	Scan,
+	ScanSearch,
+	ScanText,
+	ScrollText,
+	Settings,
+	Sparkles,
 	Upload,
+	X,
 	Zap,
 } from "lucide-react";
 
+import { RegionSelector, type RegionSelectionMode } from "@/components/region-selector";
 import { Button } from "@/components/ui/button";
-import { createAndDownloadPPT } from "@/lib/ppt-generation";
-import { formatTime } from "@/lib/utils";
+import {
+	createHttpTranscriptionBackend,
+	DEFAULT_TRANSCRIPTION_ENDPOINT,
+	type TranscriptSegment,
+} from "@/lib/audio-transcription";
+import type { CapturedSlide } from "@/lib/captured-slide";
+import { FRAME_CONTENT_CLASS_LABELS, type FrameContentClass } from "@/lib/frame-classifier";
+import {
+	EMPTY_REGION_SETTINGS,
+	getLayoutKey,
+	loadRegionSettings,
+	saveRegionSettings,
+	type FrameRegion,
+	type RegionSettings,
+} from "@/lib/frame-region";
+import { detectScreenQuadInVideo } from "@/lib/keystone";
+import { createAndDownloadPPT, type TextLayerMode } from "@/lib/ppt-generation";
+import type { ScrollSlideLayout } from "@/lib/scroll-stitching";
+import { deduplicateSlides, DEFAULT_HASH_DISTANCE, HASH_DISTANCE_OPTIONS } from "@/lib/slide-dedup";
+import { recognizeSlides, terminateOcr } from "@/lib/slide-ocr";
+import { formatTime, FRAME_COMPARATORS, type FrameComparatorId } from "@/lib/utils";
 import { diagnoseVideoFile, generateDiagnosticReport } from "@/lib/video-diagnostics";
-import { convertToMp4, extractFramesFromVideo, preprocessVideo } from "@/lib/video-processing";
-
-type ProcessingState = "idle" | "uploading" | "analyzing" | "extracting" | "completed" | "error" | "converting";
+import {
+	analyzeAudioTrack,
+	convertToMp4,
+	DEFAULT_SETTLE_DURATION,
+	extractFramesFromVideo,
+	preprocessVideo,
+	SETTLE_DURATION_OPTIONS,
+	type AutoCropMode,
+} from "@/lib/video-processing";
+
+type ProcessingState =
+	| "idle"
+	| "uploading"
+	| "analyzing"
+	| "extracting"
+	| "recognizing"
+	| "transcribing"
+	| "completed"
+	| "error"
+	| "converting";
 
 const LocalVideoPage = () => {
 	// File and video state
@@ -32,9 +87,47 @@ const LocalVideoPage = () => {
 	const [processingState, setProcessingState] = useState<ProcessingState>("idle");
 	const [progress, setProgress] = useState<number>(0);
 	const [error, setError] = useState<string>("");
+	const [mergeProgressiveBuilds, setMergeProgressiveBuilds] = useState<boolean>(false);
+	const [comparatorId, setComparatorId] = useState<FrameComparatorId>("rms");
+	const [settleDuration, setSettleDuration] = useState<number>(DEFAULT_SETTLE_DURATION);
+	const [hashDistance, setHashDistance] = useState<number>(DEFAULT_HASH_DISTANCE);
+	const [selectSharpestFrame, setSelectSharpestFrame] = useState<boolean>(false);
+	const [suppressCursor, setSuppressCursor] = useState<boolean>(false);
+	const [stitchScrolling, setStitchScrolling] = useState<boolean>(false);
+	const [scrollSlideLayout, setScrollSlideLayout] = useState<ScrollSlideLayout>("fit");
+	const [whiteboardMode, setWhiteboardMode] = useState<boolean>(false);
+	const [cleanWhiteboard, setCleanWhiteboard] = useState<boolean>(false);
+	const [showTimestampFooter, setShowTimestampFooter] = useState<boolean>(false);
+	const [videoBaseUrl, setVideoBaseUrl] = useState<string>("");
+
+	// Speech-to-text through a locally hosted Whisper-compatible service
+	const [transcribeAudio, setTranscribeAudio] = useState<boolean>(false);
+	const [transcriptionEndpoint, setTranscriptionEndpoint] = useState<string>(DEFAULT_TRANSCRIPTION_ENDPOINT);
+	const [transcript, setTranscript] = useState<TranscriptSegment[]>([]);
+
+	// OCR text layer so the exported slides can be searched and copied from
+	const [recognizeText, setRecognizeText] = useState<boolean>(false);
+	const [textLayerMode, setTextLayerMode] = useState<TextLayerMode>("hidden");
+
+	// Webinars cut between shared slides and the presenter's camera
+	const [contentFilter, setContentFilter] = useState<FrameContentClass | "all">("all");
+	const [includeCameraFrames, setIncludeCameraFrames] = useState<boolean>(false);
+
+	// Region of interest (crop rectangle and exclusion masks)
+	const [regionSettings, setRegionSettings] = useState<RegionSettings>(EMPTY_REGION_SETTINGS);
+	const [regionMode, setRegionMode] = useState<RegionSelectionMode>("none");
+	const [autoDetectRegion, setAutoDetectRegion] = useState<boolean>(true);
+	// Slide area found while preprocessing, waiting for the user to accept, adjust or ignore it
+	const [suggestedCrop, setSuggestedCrop] = useState<FrameRegion | null>(null);
+	const [ignoreDetectedRegion, setIgnoreDetectedRegion] = useState<boolean>(false);
 
 	// Video analysis results
-	const [screenshots, setScreenshots] = useState<string[]>([]);
+	const [slides, setSlides] = useState<CapturedSlide[]>([]);
+	const [duplicateCount, setDuplicateCount] = useState<number>(0);
+	// Changed frames dropped because they were black, white or a single colour
+	const [blankFrameCount, setBlankFrameCount] = useState<number>(0);
+	// Timestamps the video could not be seeked to during extraction
+	const [skippedTimes, setSkippedTimes] = useState<number[]>([]);
 	const [videoMetadata, setVideoMetadata] = useState<{
 		duration: number;
 		width: number;
@@ -99,6 +192,10 @@ const LocalVideoPage = () => {
 				height: video.videoHeight,
 				size: file.size,
 			});
+
+			// Reuse the regions drawn for an earlier upload with the same meeting layout
+			const layoutKey = getLayoutKey(video.videoWidth, video.videoHeight);
+			setRegionSettings(loadRegionSettings(layoutKey) ?? EMPTY_REGION_SETTINGS);
 			setProcessingState("idle");
 		};
 
@@ -187,8 +284,16 @@ const LocalVideoPage = () => {
 			// Reset states
 			setError("");
 			setProgress(0);
-			setScreenshots([]);
+			setSlides([]);
+			setDuplicateCount(0);
+			setBlankFrameCount(0);
+			setSkippedTimes([]);
+			setTranscript([]);
 			setVideoMetadata(null);
+			setRegionSettings(EMPTY_REGION_SETTINGS);
+			setRegionMode("none");
+			setSuggestedCrop(null);
+			setIgnoreDetectedRegion(false);
 			setVideoUrl(""); // Clear previous video URL
 
 			setSelectedFile(file);
@@ -249,14 +354,47 @@ const LocalVideoPage = () => {
 		[handleFileSelect]
 	);
 
+	// Update and persist the region of interest for this meeting layout
+	const handleRegionChange = useCallback(
+		(settings: RegionSettings) => {
+			setRegionSettings(settings);
+			setRegionMode("none");
+			setSuggestedCrop(null);
+
+			if (videoMetadata) {
+				saveRegionSettings(getLayoutKey(videoMetadata.width, videoMetadata.height), settings);
+			}
+		},
+		[videoMetadata]
+	);
+
+	// Find the projector screen in the frame shown in the player and rectify to it
+	const handleDetectScreen = useCallback(() => {
+		const video = videoRef.current;
+		if (!video || video.videoWidth === 0) return;
+
+		const keystone = detectScreenQuadInVideo(video);
+		if (keystone) {
+			setError("");
+			handleRegionChange({ crop: null, exclusions: [], keystone });
+		} else {
+			setError("未能识别投影屏幕，请手动标记四个角");
+		}
+	}, [handleRegionChange]);
+
 	// Process video using traditional method with WebAV enhancements
 	const handleProcessVideo = useCallback(async () => {
 		if (!selectedFile || !videoRef.current || !canvasRef.current) return;
 
 		try {
 			setProcessingState("analyzing");
+			setRegionMode("none");
 			setProgress(0);
-			setScreenshots([]);
+			setSlides([]);
+			setDuplicateCount(0);
+			setBlankFrameCount(0);
+			setSkippedTimes([]);
+			setTranscript([]);
 
 			const video = videoRef.current;
 			const canvas = canvasRef.current;
@@ -269,13 +407,31 @@ const LocalVideoPage = () => {
 				});
 			}
 
-			// Preprocess to get dynamic threshold
+			// Preprocess to get dynamic threshold and, without a drawn crop, the letterbox trim and slide area
 			setProcessingState("analyzing");
-			const dynamicThreshold = await preprocessVideo(video, canvas);
+			const autoCropMode: AutoCropMode = ignoreDetectedRegion ? "none" : autoDetectRegion ? "slide-area" : "letterbox";
+			const preprocessResult = await preprocessVideo(
+				video,
+				canvas,
+				regionSettings,
+				comparatorId,
+				selectedFile,
+				autoCropMode
+			);
+			const dynamicThreshold = preprocessResult.threshold;
+
+			// A detected area is only a suggestion: stop so it can be accepted, adjusted or ignored before extraction
+			if (preprocessResult.autoCrop) {
+				console.log("Detected slide area:", preprocessResult.autoCrop);
+				setSuggestedCrop(preprocessResult.autoCrop);
+				setProcessingState("idle");
+				return;
+			}
 
 			console.log(`Using dynamic threshold: ${dynamicThreshold}`);
 
 			setProcessingState("extracting");
+			let extractedSlides: CapturedSlide[] = [];
 
 			// Extract frames using the traditional method with improvements
 			await extractFramesFromVideo(
@@ -285,39 +441,137 @@ const LocalVideoPage = () => {
 					captureInterval: 3, // Capture every 3 seconds
 					differenceThreshold: dynamicThreshold,
 					maxScreenshots: 256,
+					mergeProgressiveBuilds,
+					region: regionSettings,
+					comparator: comparatorId,
+					settleDuration,
+					selectSharpestFrame,
+					suppressCursor,
+					stitchScrolling,
+					whiteboardMode,
+					cleanWhiteboard,
+					file: selectedFile,
 				},
 				{
 					onProgress: (progressPercent) => {
 						setProgress(progressPercent);
 					},
-					onFrameCaptured: (blob, url) => {
-						setScreenshots((prev) => [...prev, url]);
+					onFrameCaptured: (slide) => {
+						setSlides((prev) => [...prev, slide]);
 					},
-					onComplete: () => {
-						setProcessingState("completed");
-						setProgress(100);
+					onFrameReplaced: (slide) => {
+						setSlides((prev) => [...prev.slice(0, -1), slide]);
+					},
+					onComplete: (capturedSlides, skipped, blankFrames) => {
+						// Collapse slides the presenter flipped back to into their first occurrence
+						const { slides: uniqueSlides, duplicates } = deduplicateSlides(capturedSlides, hashDistance);
+						duplicates.forEach((duplicate) => URL.revokeObjectURL(duplicate.url));
+						console.log(`Removed ${duplicates.length} duplicate slides`);
+
+						extractedSlides = uniqueSlides;
+						setSlides(uniqueSlides);
+						setDuplicateCount(duplicates.length);
+						setSkippedTimes(skipped);
+						setBlankFrameCount(blankFrames);
 					},
 				}
 			);
+
+			// Recognize the text on every slide for the PPTX text layer
+			if (recognizeText && extractedSlides.length > 0) {
+				setProcessingState("recognizing");
+				setProgress(0);
+
+				try {
+					setSlides(await recognizeSlides(extractedSlides, setProgress));
+				} catch (error) {
+					console.error("Error recognizing slide text:", error);
+					setError("文字识别失败，已跳过");
+				} finally {
+					await terminateOcr();
+				}
+			}
+
+			// Transcribe the audio track so each slide's speaker notes get what was said while it was shown
+			if (transcribeAudio) {
+				setProcessingState("transcribing");
+				setProgress(0);
+
+				try {
+					const audioAnalysis = await analyzeAudioTrack(selectedFile, {
+						transcriptionBackend: createHttpTranscriptionBackend(transcriptionEndpoint),
+						onProgress: setProgress,
+					});
+
+					setTranscript(audioAnalysis.transcript);
+					if (!audioAnalysis.hasAudio) {
+						setError("视频中没有音轨，已跳过语音转写");
+					}
+				} catch (error) {
+					console.error("Error transcribing audio:", error);
+					setError("语音转写失败，请确认本地转写服务已启动");
+				}
+			}
+
+			setProcessingState("completed");
+			setProgress(100);
 		} catch (error) {
 			console.error("Error processing video:", error);
 			setError("视频处理失败，请重试");
 			setProcessingState("error");
 		}
-	}, [selectedFile]);
+	}, [
+		selectedFile,
+		mergeProgressiveBuilds,
+		comparatorId,
+		settleDuration,
+		hashDistance,
+		selectSharpestFrame,
+		suppressCursor,
+		stitchScrolling,
+		whiteboardMode,
+		cleanWhiteboard,
+		regionSettings,
+		autoDetectRegion,
+		ignoreDetectedRegion,
+		recognizeText,
+		transcribeAudio,
+		transcriptionEndpoint,
+	]);
 
 	// Download PPT
 	const handleDownloadPPT = useCallback(async () => {
 		try {
-			await createAndDownloadPPT(screenshots, {
+			await createAndDownloadPPT(slides, {
 				title: selectedFile?.name || "Video Analysis",
 				maxSlides: 256,
+				showTimestampFooter,
+				videoBaseUrl,
+				transcript,
+				textLayer: textLayerMode,
+				includeCameraFrames,
+				scrollSlideLayout,
 			});
 		} catch (error) {
 			console.error("Error generating PPT:", error);
 			setError("PPT生成失败，请重试");
 		}
-	}, [screenshots, selectedFile?.name]);
+	}, [
+		slides,
+		selectedFile?.name,
+		showTimestampFooter,
+		videoBaseUrl,
+		transcript,
+		textLayerMode,
+		includeCameraFrames,
+		scrollSlideLayout,
+	]);
+
+	const visibleSlides =
+		contentFilter === "all" ? slides : slides.filter((slide) => slide.contentClass === contentFilter);
+	const pptSlideCount = includeCameraFrames
+		? slides.length
+		: slides.filter((slide) => slide.contentClass !== "camera").length;
 
 	// Reset everything
 	const handleReset = useCallback(() => {
@@ -331,8 +585,16 @@ const LocalVideoPage = () => {
 		setProcessingState("idle");
 		setProgress(0);
 		setError("");
-		setScreenshots([]);
+		setSlides([]);
+		setDuplicateCount(0);
+		setBlankFrameCount(0);
+		setSkippedTimes([]);
+		setTranscript([]);
 		setVideoMetadata(null);
+		setRegionSettings(EMPTY_REGION_SETTINGS);
+		setRegionMode("none");
+		setSuggestedCrop(null);
+		setIgnoreDetectedRegion(false);
 
 		if (fileInputRef.current) {
 			fileInputRef.current.value = "";
@@ -430,9 +692,23 @@ const LocalVideoPage = () => {
 											preload="metadata"
 										/>
 
+										{/* Region of Interest Overlay */}
+										{videoMetadata && (
+											<RegionSelector
+												videoWidth={videoMetadata.width}
+												videoHeight={videoMetadata.height}
+												settings={regionSettings}
+												mode={regionMode}
+												suggestedCrop={suggestedCrop}
+												onChange={handleRegionChange}
+											/>
+										)}
+
 										{/* Processing Overlay */}
 										{(processingState === "analyzing" ||
 											processingState === "extracting" ||
+											processingState === "recognizing" ||
+											processingState === "transcribing" ||
 											processingState === "converting") && (
 											<div className="absolute inset-0 bg-black/80 flex items-center justify-center opacity-0 animate-[fadeIn_0.3s_ease-in-out_forwards]">
 												<div className="text-center space-y-4">
@@ -442,11 +718,15 @@ const LocalVideoPage = () => {
 															{processingState === "converting" && "转换视频格式中..."}
 															{processingState === "analyzing" && "分析视频中..."}
 															{processingState === "extracting" && "提取关键帧..."}
+															{processingState === "recognizing" && "识别文字中..."}
+															{processingState === "transcribing" && "转写语音中..."}
 														</p>
 														<p className="text-sm text-zinc-400 mt-2">
 															{processingState === "converting" && "正在转换..."}
 															{processingState === "analyzing" && "正在分析..."}
 															{processingState === "extracting" && "正在提取..."}
+															{processingState === "recognizing" && "正在识别..."}
+															{processingState === "transcribing" && "正在转写..."}
 														</p>
 														{processingState === "converting" && (
 															<p className="text-xs text-zinc-500 mt-2">优先尝试快速copy，如需要则重新编码</p>
@@ -481,12 +761,377 @@ const LocalVideoPage = () => {
 										</div>
 									)}
 
+									{/* Processing Settings */}
+									<div className="flex items-center justify-between">
+										<div className="flex items-center space-x-2">
+											<Settings className="h-5 w-5 text-zinc-400" />
+											<span className="text-sm text-zinc-300">处理设置</span>
+										</div>
+
+										<div className="flex gap-2">
+											<select
+												value={comparatorId}
+												onChange={(e) => setComparatorId(e.target.value as FrameComparatorId)}
+												className="h-8 rounded-md border border-zinc-700 bg-zinc-900 px-2 text-sm text-white"
+												disabled={processingState === "analyzing" || processingState === "extracting"}
+												title={FRAME_COMPARATORS[comparatorId].description}
+											>
+												{Object.values(FRAME_COMPARATORS).map((comparator) => (
+													<option key={comparator.id} value={comparator.id}>
+														{comparator.label}
+													</option>
+												))}
+											</select>
+
+											<select
+												value={settleDuration}
+												onChange={(e) => setSettleDuration(Number(e.target.value))}
+												className="h-8 rounded-md border border-zinc-700 bg-zinc-900 px-2 text-sm text-white"
+												disabled={processingState === "analyzing" || processingState === "extracting"}
+												title="检测到变化后，等待画面稳定再截图，避免截到切换动画中的帧"
+											>
+												{SETTLE_DURATION_OPTIONS.map((duration) => (
+													<option key={duration} value={duration}>
+														{duration === 0 ? "立即截图" : `稳定${duration}秒后截图`}
+													</option>
+												))}
+											</select>
+
+											<select
+												value={hashDistance}
+												onChange={(e) => setHashDistance(Number(e.target.value))}
+												className="h-8 rounded-md border border-zinc-700 bg-zinc-900 px-2 text-sm text-white"
+												disabled={processingState === "analyzing" || processingState === "extracting"}
+												title="两页截图的感知哈希最多相差这么多位（共64位）时视为同一页并合并"
+											>
+												{HASH_DISTANCE_OPTIONS.map((distance) => (
+													<option key={distance} value={distance}>
+														{distance === 0 ? "仅合并完全相同的页" : `去重容差 ${distance}`}
+													</option>
+												))}
+											</select>
+
+											<Button
+												variant="outline"
+												size="sm"
+												onClick={() => setMergeProgressiveBuilds(!mergeProgressiveBuilds)}
+												className="border-zinc-700 text-white hover:bg-zinc-800"
+												disabled={processingState === "analyzing" || processingState === "extracting"}
+												title="逐条显示要点时只保留完整的幻灯片"
+											>
+												<Layers className="h-4 w-4 mr-2" />
+												{mergeProgressiveBuilds ? "合并逐步显示" : "保留每一步"}
+											</Button>
+
+											<Button
+												variant="outline"
+												size="sm"
+												onClick={() => setSelectSharpestFrame(!selectSharpestFrame)}
+												className="border-zinc-700 text-white hover:bg-zinc-800"
+												disabled={processingState === "analyzing" || processingState === "extracting"}
+												title="在每页停留期间比较多帧，保留最清晰、压缩痕迹最少的一帧"
+											>
+												<Sparkles className="h-4 w-4 mr-2" />
+												{selectSharpestFrame ? "选择最清晰帧" : "使用首帧"}
+											</Button>
+
+											<Button
+												variant="outline"
+												size="sm"
+												onClick={() => setSuppressCursor(!suppressCursor)}
+												className="border-zinc-700 text-white hover:bg-zinc-800"
+												disabled={processingState === "analyzing" || processingState === "extracting"}
+												title="鼠标指针或激光笔移动时不触发截图，并利用相邻帧从截图中去除指针"
+											>
+												<MousePointer2 className="h-4 w-4 mr-2" />
+												{suppressCursor ? "去除鼠标指针" : "保留鼠标指针"}
+											</Button>
+
+											<Button
+												variant="outline"
+												size="sm"
+												onClick={() => setStitchScrolling(!stitchScrolling)}
+												className="border-zinc-700 text-white hover:bg-zinc-800"
+												disabled={processingState === "analyzing" || processingState === "extracting"}
+												title="滚动浏览长文档或代码时，将连续截图拼接成一张长图"
+											>
+												<ScrollText className="h-4 w-4 mr-2" />
+												{stitchScrolling ? "拼接滚动长图" : "不拼接滚动"}
+											</Button>
+
+											<select
+												value={scrollSlideLayout}
+												onChange={(e) => setScrollSlideLayout(e.target.value as ScrollSlideLayout)}
+												className="h-8 rounded-md border border-zinc-700 bg-zinc-900 px-2 text-sm text-white"
+												disabled={!stitchScrolling}
+												title="长图在PPT中的排版方式"
+											>
+												<option value="fit">长图缩放为一页</option>
+												<option value="paginate">长图分页</option>
+											</select>
+
+											<Button
+												variant="outline"
+												size="sm"
+												onClick={() => setWhiteboardMode(!whiteboardMode)}
+												className="border-zinc-700 text-white hover:bg-zinc-800"
+												disabled={processingState === "analyzing" || processingState === "extracting"}
+												title="白板或手写板讲课：每块板书只在擦除前和结尾截图一次"
+											>
+												<PenTool className="h-4 w-4 mr-2" />
+												{whiteboardMode ? "白板模式" : "幻灯片模式"}
+											</Button>
+
+											<select
+												value={cleanWhiteboard ? "clean" : "original"}
+												onChange={(e) => setCleanWhiteboard(e.target.value === "clean")}
+												className="h-8 rounded-md border border-zinc-700 bg-zinc-900 px-2 text-sm text-white"
+												disabled={
+													!whiteboardMode || processingState === "analyzing" || processingState === "extracting"
+												}
+												title="将白板背景处理为纯白"
+											>
+												<option value="original">保留白板原色</option>
+												<option value="clean">背景处理为纯白</option>
+											</select>
+
+											<Button
+												variant="outline"
+												size="sm"
+												onClick={() => setShowTimestampFooter(!showTimestampFooter)}
+												className="border-zinc-700 text-white hover:bg-zinc-800"
+												title="在每页PPT底部显示该页在视频中的时间段"
+											>
+												<Clock className="h-4 w-4 mr-2" />
+												{showTimestampFooter ? "显示时间页脚" : "无时间页脚"}
+											</Button>
+										</div>
+									</div>
+
+									{/* Hosted Video Link */}
+									<div className="flex items-center justify-between gap-4">
+										<div className="flex items-center space-x-2 shrink-0">
+											<Link2 className="h-5 w-5 text-zinc-400" />
+											<span className="text-sm text-zinc-300">视频链接</span>
+										</div>
+
+										<input
+											type="url"
+											value={videoBaseUrl}
+											onChange={(e) => setVideoBaseUrl(e.target.value)}
+											placeholder="录像的在线地址（可选），PPT每页将链接到对应时间点"
+											className="h-8 flex-1 rounded-md border border-zinc-700 bg-zinc-900 px-3 text-sm text-white placeholder:text-zinc-500"
+										/>
+									</div>
+
+									{/* Text Recognition */}
+									<div className="flex items-center justify-between">
+										<div className="flex items-center space-x-2">
+											<ScanText className="h-5 w-5 text-zinc-400" />
+											<span className="text-sm text-zinc-300">文字识别</span>
+										</div>
+
+										<div className="flex gap-2">
+											{recognizeText && (
+												<select
+													value={textLayerMode}
+													onChange={(e) => setTextLayerMode(e.target.value as TextLayerMode)}
+													className="h-8 rounded-md border border-zinc-700 bg-zinc-900 px-2 text-sm text-white"
+													title="识别出的文字在PPT中的呈现方式"
+												>
+													<option value="hidden">隐藏文字层（可搜索）</option>
+													<option value="visible">可见文字层（可编辑）</option>
+													<option value="none">不添加文字层</option>
+												</select>
+											)}
+
+											<Button
+												variant="outline"
+												size="sm"
+												onClick={() => setRecognizeText(!recognizeText)}
+												className="border-zinc-700 text-white hover:bg-zinc-800"
+												disabled={processingState === "analyzing" || processingState === "extracting"}
+												title="使用本地中英文模型识别每页幻灯片上的文字"
+											>
+												<ScanText className="h-4 w-4 mr-2" />
+												{recognizeText ? "识别文字" : "不识别"}
+											</Button>
+										</div>
+									</div>
+
+									{/* Audio Transcription */}
+									<div className="flex items-center justify-between gap-4">
+										<div className="flex items-center space-x-2 shrink-0">
+											<Mic className="h-5 w-5 text-zinc-400" />
+											<span className="text-sm text-zinc-300">语音转写</span>
+										</div>
+
+										{transcribeAudio && (
+											<input
+												type="url"
+												value={transcriptionEndpoint}
+												onChange={(e) => setTranscriptionEndpoint(e.target.value)}
+												placeholder="Whisper兼容的本地转写服务地址"
+												className="h-8 flex-1 rounded-md border border-zinc-700 bg-zinc-900 px-3 text-sm text-white placeholder:text-zinc-500"
+												disabled={processingState === "analyzing" || processingState === "extracting"}
+											/>
+										)}
+
+										<Button
+											variant="outline"
+											size="sm"
+											onClick={() => setTranscribeAudio(!transcribeAudio)}
+											className="border-zinc-700 text-white hover:bg-zinc-800"
+											disabled={processingState === "analyzing" || processingState === "extracting"}
+											title="使用本地whisper.cpp等服务转写音频，并写入每页PPT的演讲者备注"
+										>
+											<Mic className="h-4 w-4 mr-2" />
+											{transcribeAudio ? "转写到备注" : "不转写"}
+										</Button>
+									</div>
+
+									{/* Region of Interest */}
+									{videoMetadata && (processingState === "idle" || processingState === "completed") && (
+										<div className="flex items-center justify-between">
+											<div className="flex items-center space-x-2">
+												<Crop className="h-5 w-5 text-zinc-400" />
+												<span className="text-sm text-zinc-300">
+													{regionMode === "crop" && "在视频上拖动框选幻灯片区域"}
+													{regionMode === "exclude" && "在视频上拖动框选要忽略的区域"}
+													{regionMode === "keystone" && "依次点击投影屏幕的四个角"}
+													{regionMode === "none" &&
+														suggestedCrop &&
+														"已识别幻灯片区域（虚线框），请采用、重新框选或忽略"}
+													{regionMode === "none" && regionSettings.keystone && "已标记投影屏幕，截图将校正为矩形"}
+													{regionMode === "none" &&
+														!suggestedCrop &&
+														!regionSettings.keystone &&
+														(regionSettings.crop || regionSettings.exclusions.length > 0
+															? `已设置检测区域${regionSettings.exclusions.length > 0 ? `，排除 ${regionSettings.exclusions.length} 处` : ""}`
+															: "检测区域：整个画面")}
+												</span>
+											</div>
+
+											<div className="flex gap-2">
+												{suggestedCrop && (
+													<>
+														<Button
+															variant="outline"
+															size="sm"
+															onClick={() => handleRegionChange({ ...regionSettings, crop: suggestedCrop })}
+															className="border-amber-500 text-amber-300 hover:bg-zinc-800"
+														>
+															<Check className="h-4 w-4 mr-2" />
+															采用
+														</Button>
+
+														<Button
+															variant="outline"
+															size="sm"
+															onClick={() => {
+																setSuggestedCrop(null);
+																setIgnoreDetectedRegion(true);
+															}}
+															className="border-zinc-700 text-white hover:bg-zinc-800"
+															title="不裁剪，按整个画面处理"
+														>
+															<X className="h-4 w-4 mr-2" />
+															忽略
+														</Button>
+													</>
+												)}
+
+												<Button
+													variant="outline"
+													size="sm"
+													onClick={() => {
+														setAutoDetectRegion(!autoDetectRegion);
+														setSuggestedCrop(null);
+														setIgnoreDetectedRegion(false);
+													}}
+													className="border-zinc-700 text-white hover:bg-zinc-800"
+													title="未框选区域时，自动识别会议录屏中的共享屏幕区域"
+												>
+													<ScanSearch className="h-4 w-4 mr-2" />
+													{autoDetectRegion ? "自动识别" : "不自动识别"}
+												</Button>
+
+												<Button
+													variant="outline"
+													size="sm"
+													onClick={() => setRegionMode(regionMode === "crop" ? "none" : "crop")}
+													className={
+														regionMode === "crop"
+															? "border-blue-500 text-blue-300 hover:bg-zinc-800"
+															: "border-zinc-700 text-white hover:bg-zinc-800"
+													}
+												>
+													<Crop className="h-4 w-4 mr-2" />
+													框选区域
+												</Button>
+
+												<Button
+													variant="outline"
+													size="sm"
+													onClick={() => setRegionMode(regionMode === "exclude" ? "none" : "exclude")}
+													className={
+														regionMode === "exclude"
+															? "border-red-500 text-red-300 hover:bg-zinc-800"
+															: "border-zinc-700 text-white hover:bg-zinc-800"
+													}
+												>
+													<EyeOff className="h-4 w-4 mr-2" />
+													排除区域
+												</Button>
+
+												<Button
+													variant="outline"
+													size="sm"
+													onClick={() => setRegionMode(regionMode === "keystone" ? "none" : "keystone")}
+													className={
+														regionMode === "keystone"
+															? "border-blue-500 text-blue-300 hover:bg-zinc-800"
+															: "border-zinc-700 text-white hover:bg-zinc-800"
+													}
+													title="手机斜拍投影时，标记屏幕四角以校正透视"
+												>
+													<Scan className="h-4 w-4 mr-2" />
+													校正投影
+												</Button>
+
+												<Button
+													variant="outline"
+													size="sm"
+													onClick={handleDetectScreen}
+													className="border-zinc-700 text-white hover:bg-zinc-800"
+													title="在当前画面中自动识别投影屏幕的四个角"
+												>
+													<ScanSearch className="h-4 w-4 mr-2" />
+													识别屏幕
+												</Button>
+
+												{(regionSettings.crop || regionSettings.exclusions.length > 0 || regionSettings.keystone) && (
+													<Button
+														variant="outline"
+														size="sm"
+														onClick={() => handleRegionChange(EMPTY_REGION_SETTINGS)}
+														className="border-zinc-700 text-white hover:bg-zinc-800"
+													>
+														<X className="h-4 w-4 mr-2" />
+														清除
+													</Button>
+												)}
+											</div>
+										</div>
+									)}
+
 									{/* Action Buttons */}
 									<div className="flex space-x-4">
 										{processingState === "idle" && (
 											<Button
 												onClick={handleProcessVideo}
 												className="flex-1 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700"
+												disabled={suggestedCrop !== null}
 											>
 												<Zap className="mr-2 h-5 w-5" />
 												开始处理
@@ -498,10 +1143,10 @@ const LocalVideoPage = () => {
 												<Button
 													onClick={handleDownloadPPT}
 													className="flex-1 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700"
-													disabled={screenshots.length === 0}
+													disabled={pptSlideCount === 0}
 												>
 													<Download className="mr-2 h-5 w-5" />
-													下载PPT ({screenshots.length}张)
+													下载PPT ({pptSlideCount}张)
 												</Button>
 
 												<Button
@@ -567,6 +1212,8 @@ const LocalVideoPage = () => {
 									<div className="flex items-center space-x-2">
 										{processingState === "analyzing" && <Loader2 className="h-4 w-4 animate-spin text-blue-400" />}
 										{processingState === "extracting" && <Loader2 className="h-4 w-4 animate-spin text-purple-400" />}
+										{processingState === "recognizing" && <Loader2 className="h-4 w-4 animate-spin text-amber-400" />}
+										{processingState === "transcribing" && <Loader2 className="h-4 w-4 animate-spin text-teal-400" />}
 										{processingState === "converting" && <Loader2 className="h-4 w-4 animate-spin text-orange-400" />}
 										{processingState === "completed" && <CheckCircle className="h-4 w-4 text-green-500" />}
 										{processingState === "error" && <AlertCircle className="h-4 w-4 text-red-500" />}
@@ -576,6 +1223,8 @@ const LocalVideoPage = () => {
 											{processingState === "converting" && "格式转换中"}
 											{processingState === "analyzing" && "分析中"}
 											{processingState === "extracting" && "提取中"}
+											{processingState === "recognizing" && "识别中"}
+											{processingState === "transcribing" && "转写中"}
 											{processingState === "completed" && "已完成"}
 											{processingState === "error" && "出错"}
 										</span>
@@ -584,7 +1233,9 @@ const LocalVideoPage = () => {
 
 								{(processingState === "converting" ||
 									processingState === "analyzing" ||
-									processingState === "extracting") && (
+									processingState === "extracting" ||
+									processingState === "recognizing" ||
+									processingState === "transcribing") && (
 									<div className="flex items-center justify-between">
 										<span className="text-zinc-400">进度</span>
 										<span>{progress}%</span>
@@ -593,23 +1244,81 @@ const LocalVideoPage = () => {
 
 								<div className="flex items-center justify-between">
 									<span className="text-zinc-400">提取帧数</span>
-									<span>{screenshots.length}</span>
+									<span>{slides.length}</span>
 								</div>
+
+								{duplicateCount > 0 && (
+									<div className="flex items-center justify-between">
+										<span className="text-zinc-400">合并重复</span>
+										<span>{duplicateCount}</span>
+									</div>
+								)}
+
+								{blankFrameCount > 0 && (
+									<div className="flex items-center justify-between">
+										<span className="text-zinc-400">丢弃空白帧</span>
+										<span>{blankFrameCount}</span>
+									</div>
+								)}
+
+								{skippedTimes.length > 0 && (
+									<div
+										className="flex items-center justify-between"
+										title={skippedTimes.map((time) => formatTime(Math.floor(time))).join(", ")}
+									>
+										<span className="text-zinc-400">跳过时间点</span>
+										<span className="text-amber-400">{skippedTimes.length}</span>
+									</div>
+								)}
+
+								{transcript.length > 0 && (
+									<div className="flex items-center justify-between">
+										<span className="text-zinc-400">转写片段</span>
+										<span>{transcript.length}</span>
+									</div>
+								)}
 							</div>
 						</div>
 
 						{/* Screenshots Preview */}
-						{screenshots.length > 0 && (
+						{slides.length > 0 && (
 							<div className="rounded-2xl bg-gradient-to-br from-zinc-900/50 to-zinc-800/30 border border-zinc-700/50 p-6 backdrop-blur-sm hover:border-zinc-600/70 transition-all duration-300">
 								<div className="flex items-center justify-between mb-4">
-									<h3 className="text-lg font-semibold">预览 ({screenshots.length}张)</h3>
+									<h3 className="text-lg font-semibold">预览 ({slides.length}张)</h3>
 									<div className="flex gap-2">
+										<select
+											value={contentFilter}
+											onChange={(e) => setContentFilter(e.target.value as FrameContentClass | "all")}
+											className="h-8 rounded-md border border-zinc-700 bg-zinc-900 px-2 text-sm text-white"
+											title="按画面类型筛选"
+										>
+											<option value="all">全部画面</option>
+											{(Object.keys(FRAME_CONTENT_CLASS_LABELS) as FrameContentClass[]).map((contentClass) => (
+												<option key={contentClass} value={contentClass}>
+													{`${FRAME_CONTENT_CLASS_LABELS[contentClass]} (${slides.filter((slide) => slide.contentClass === contentClass).length})`}
+												</option>
+											))}
+										</select>
+										<Button
+											variant="outline"
+											size="sm"
+											onClick={() => setIncludeCameraFrames(!includeCameraFrames)}
+											className="border-zinc-700 text-white hover:bg-zinc-800"
+											title="全屏摄像头画面默认不放入PPT"
+										>
+											{includeCameraFrames ? (
+												<Camera className="mr-1 h-4 w-4" />
+											) : (
+												<CameraOff className="mr-1 h-4 w-4" />
+											)}
+											{includeCameraFrames ? "PPT含摄像头画面" : "PPT不含摄像头画面"}
+										</Button>
 										<Button
 											onClick={() => {
 												// 批量下载功能
-												screenshots.forEach((screenshot, index) => {
+												slides.forEach((slide, index) => {
 													const link = document.createElement("a");
-													link.href = screenshot;
+													link.href = slide.url;
 													link.download = `video_frame_${String(index + 1).padStart(3, "0")}.png`;
 													document.body.appendChild(link);
 													link.click();
@@ -628,51 +1337,61 @@ const LocalVideoPage = () => {
 
 								{/* 滚动预览区域 */}
 								<div className="max-h-96 overflow-y-auto space-y-3 pr-2 scrollbar-thin scrollbar-thumb-zinc-600 scrollbar-track-zinc-800">
-									{screenshots.map((screenshot, index) => (
-										<div
-											key={index}
-											className="aspect-video rounded-lg overflow-hidden border border-zinc-600/30 group relative"
-										>
-											<Image
-												src={screenshot}
-												alt={`Frame ${index + 1}`}
-												width={300}
-												height={200}
-												className="w-full h-full object-cover"
-												unoptimized
-											/>
-											<div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-												<div className="flex gap-2">
-													<Button
-														onClick={() => {
-															const link = document.createElement("a");
-															link.href = screenshot;
-															link.download = `video_frame_${String(index + 1).padStart(3, "0")}.png`;
-															document.body.appendChild(link);
-															link.click();
-															document.body.removeChild(link);
-														}}
-														size="sm"
-														variant="secondary"
-													>
-														<Download className="h-4 w-4" />
-													</Button>
-													<Button
-														onClick={() => {
-															window.open(screenshot, "_blank");
-														}}
-														size="sm"
-														variant="secondary"
-													>
-														<Eye className="h-4 w-4" />
-													</Button>
+									{visibleSlides.map((slide) => {
+										const index = slides.indexOf(slide);
+										return (
+											<div
+												key={slide.id}
+												className="aspect-video rounded-lg overflow-hidden border border-zinc-600/30 group relative"
+											>
+												<Image
+													src={slide.url}
+													alt={`Frame ${index + 1}`}
+													title={slide.textLayer?.text || undefined}
+													width={300}
+													height={200}
+													className="w-full h-full object-cover"
+													unoptimized
+												/>
+												<div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+													<div className="flex gap-2">
+														<Button
+															onClick={() => {
+																const link = document.createElement("a");
+																link.href = slide.url;
+																link.download = `video_frame_${String(index + 1).padStart(3, "0")}.png`;
+																document.body.appendChild(link);
+																link.click();
+																document.body.removeChild(link);
+															}}
+															size="sm"
+															variant="secondary"
+														>
+															<Download className="h-4 w-4" />
+														</Button>
+														<Button
+															onClick={() => {
+																window.open(slide.url, "_blank");
+															}}
+															size="sm"
+															variant="secondary"
+														>
+															<Eye className="h-4 w-4" />
+														</Button>
+													</div>
+												</div>
+												<div className="absolute top-2 left-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
+													#{index + 1}
+													{slide.contentClass !== "slide" && ` · ${FRAME_CONTENT_CLASS_LABELS[slide.contentClass]}`}
+												</div>
+												<div className="absolute bottom-2 left-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
+													{slide.appearances
+														.map((appearance) => formatTime(Math.floor(appearance.startTime)))
+														.join(", ")}
 												</div>
 											</div>
-											<div className="absolute top-2 left-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
-												#{index + 1}
-											</div>
-										</div>
-									))}
+										);
+									})}
 								</div>
 							</div>
 						)}
@@ -1,19 +1,22 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import {
 	ArrowLeft,
 	Camera,
+	CameraOff,
 	CheckCircle,
 	Download,
 	Eye,
 	Images,
+	Layers,
 	Loader2,
 	Mic,
 	MicOff,
 	Monitor,
+	MousePointer2,
 	Pause,
 	Play,
 	Settings,
@@ -21,15 +24,27 @@ import {
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
+import { finalizeSlideTimings, type CapturedSlide } from "@/lib/captured-slide";
+import { FRAME_CONTENT_CLASS_LABELS, type FrameContentClass } from "@/lib/frame-classifier";
 import { createAndDownloadPPT } from "@/lib/ppt-generation";
-import { formatTime } from "@/lib/utils";
-import { captureAndFilterScreenshot } from "@/lib/video-processing";
+import { deduplicateSlides, DEFAULT_HASH_DISTANCE, HASH_DISTANCE_OPTIONS } from "@/lib/slide-dedup";
+import { formatTime, FRAME_COMPARATORS, getFrameComparator, type FrameComparatorId } from "@/lib/utils";
+import {
+	captureAndFilterScreenshot,
+	DEFAULT_SETTLE_DURATION,
+	flushPendingScreenshot,
+	resetScreenshotComparison,
+	SETTLE_DURATION_OPTIONS,
+} from "@/lib/video-processing";
 
 type RecordingState = "idle" | "ready" | "recording" | "paused" | "processing" | "completed";
 
 interface ScreenshotStats {
 	total: number;
 	saved: number;
+	duplicates: number;
+	// Changed frames dropped because they were black, white or a single colour
+	blank: number;
 }
 
 const ScreenRecordingPage = () => {
@@ -37,15 +52,21 @@ const ScreenRecordingPage = () => {
 	const [recordingState, setRecordingState] = useState<RecordingState>("idle");
 	const [recordingTime, setRecordingTime] = useState<number>(0);
 	const [withAudio, setWithAudio] = useState<boolean>(false);
+	const [mergeProgressiveBuilds, setMergeProgressiveBuilds] = useState<boolean>(false);
 
-	// State ref for timeout callbacks
+	// State refs for timeout callbacks
 	const recordingStateRef = useRef<RecordingState>("idle");
+	const recordingTimeRef = useRef<number>(0);
 
-	// Update ref when state changes
+	// Update refs when state changes
 	useEffect(() => {
 		recordingStateRef.current = recordingState;
 	}, [recordingState]);
 
+	useEffect(() => {
+		recordingTimeRef.current = recordingTime;
+	}, [recordingTime]);
+
 	// Media stream and recording
 	const [mediaStream, setMediaStream] = useState<MediaStream | null>(null);
 	const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -54,11 +75,22 @@ const ScreenRecordingPage = () => {
 	const timerRef = useRef<NodeJS.Timeout | null>(null);
 
 	// Screenshot capture
-	const [screenshots, setScreenshots] = useState<string[]>([]);
-	const [screenshotStats, setScreenshotStats] = useState<ScreenshotStats>({ total: 0, saved: 0 });
+	const [slides, setSlides] = useState<CapturedSlide[]>([]);
+	const [screenshotStats, setScreenshotStats] = useState<ScreenshotStats>({
+		total: 0,
+		saved: 0,
+		duplicates: 0,
+		blank: 0,
+	});
 	const canvasRef = useRef<HTMLCanvasElement>(null);
-	const lastImageDataRef = useRef<ImageData | null>(null);
-	const diffThreshold = 30;
+	const capturedSlidesRef = useRef<CapturedSlide[]>([]);
+	const [comparatorId, setComparatorId] = useState<FrameComparatorId>("rms");
+	const diffThreshold = getFrameComparator(comparatorId).defaultThreshold;
+	const [settleDuration, setSettleDuration] = useState<number>(DEFAULT_SETTLE_DURATION);
+	const [suppressCursor, setSuppressCursor] = useState<boolean>(false);
+	const [hashDistance, setHashDistance] = useState<number>(DEFAULT_HASH_DISTANCE);
+	const [contentFilter, setContentFilter] = useState<FrameContentClass | "all">("all");
+	const [includeCameraFrames, setIncludeCameraFrames] = useState<boolean>(false);
 
 	// Video output
 	const [videoUrl, setVideoUrl] = useState<string>("");
@@ -93,8 +125,47 @@ const ScreenRecordingPage = () => {
 		}
 	}, []);
 
+	// Where captured screenshots go, shared by the periodic capture and the flush when recording stops
+	const screenshotCallbacks = useMemo(
+		() => ({
+			onScreenshotCaptured: (slide: CapturedSlide) => {
+				console.log("新截图已保存");
+				capturedSlidesRef.current.push(slide);
+				setSlides((prev) => {
+					const newSlides = [...prev, slide];
+					return newSlides;
+				});
+				setScreenshotStats((prev) => ({ ...prev, saved: prev.saved + 1 }));
+			},
+			onScreenshotReplaced: (slide: CapturedSlide) => {
+				console.log("逐步显示的幻灯片已更新为最新版本");
+				// 保留第一步出现的时间
+				const previous = capturedSlidesRef.current.pop();
+				if (previous) {
+					URL.revokeObjectURL(previous.url);
+				}
+				const mergedSlide = previous
+					? {
+							...slide,
+							startTime: previous.startTime,
+							endTime: previous.startTime,
+							appearances: previous.appearances,
+							score: previous.score,
+						}
+					: slide;
+				capturedSlidesRef.current.push(mergedSlide);
+				setSlides((prev) => [...prev.slice(0, -1), mergedSlide]);
+			},
+			onBlankFrameDropped: () => {
+				console.log("跳过空白画面");
+				setScreenshotStats((prev) => ({ ...prev, blank: prev.blank + 1 }));
+			},
+		}),
+		[]
+	);
+
 	// Screenshot capture function
-	const captureScreenshot = useCallback(() => {
+	const captureScreenshot = useCallback(async () => {
 		const video = videoRef.current;
 		const canvas = canvasRef.current;
 
@@ -118,19 +189,16 @@ const ScreenRecordingPage = () => {
 		console.log(`捕获截图，视频尺寸: ${video.videoWidth}x${video.videoHeight}, readyState: ${video.readyState}`);
 
 		try {
-			captureAndFilterScreenshot({
+			await captureAndFilterScreenshot({
 				videoRef: videoRef as React.RefObject<HTMLVideoElement>,
 				canvasRef: canvasRef as React.RefObject<HTMLCanvasElement>,
-				lastImageDataRef,
+				currentTime: recordingTimeRef.current,
 				diffThreshold,
-				onScreenshotCaptured: (screenshot) => {
-					console.log("新截图已保存");
-					setScreenshots((prev) => {
-						const newScreenshots = [...prev, screenshot];
-						return newScreenshots;
-					});
-					setScreenshotStats((prev) => ({ ...prev, saved: prev.saved + 1 }));
-				},
+				comparator: comparatorId,
+				mergeProgressiveBuilds,
+				settleDuration,
+				suppressCursor,
+				...screenshotCallbacks,
 				onStatsUpdate: () => {
 					setScreenshotStats((prev) => ({ ...prev, total: prev.total + 1 }));
 				},
@@ -138,7 +206,7 @@ const ScreenRecordingPage = () => {
 		} catch (error) {
 			console.error("截图捕获失败:", error);
 		}
-	}, [diffThreshold]);
+	}, [diffThreshold, comparatorId, mergeProgressiveBuilds, settleDuration, suppressCursor, screenshotCallbacks]);
 
 	// Screenshot capture during recording
 	const startScreenshotCapture = useCallback(() => {
@@ -267,9 +335,10 @@ const ScreenRecordingPage = () => {
 			}, 200);
 
 			// 重置截图相关状态
-			setScreenshots([]);
-			setScreenshotStats({ total: 0, saved: 0 });
-			lastImageDataRef.current = null;
+			setSlides([]);
+			setScreenshotStats({ total: 0, saved: 0, duplicates: 0, blank: 0 });
+			resetScreenshotComparison();
+			capturedSlidesRef.current = [];
 		} catch (error) {
 			console.error("录制准备失败:", error);
 			if (error instanceof Error) {
@@ -333,14 +402,34 @@ const ScreenRecordingPage = () => {
 					}
 				};
 
-				mediaRecorder.onstop = () => {
+				mediaRecorder.onstop = async () => {
 					console.log("录制停止，生成视频文件...");
 					const blob = new Blob(recordedChunksRef.current, {
 						type: supportedMimeType.split(";")[0],
 					});
 					setVideoUrl(URL.createObjectURL(blob));
 					console.log("视频文件生成完成，大小:", blob.size, "bytes");
-					console.log("截图数量:", screenshots.length);
+
+					// 停止前仍在等待画面稳定的变化也要截下来
+					try {
+						await flushPendingScreenshot({
+							videoRef: videoRef as React.RefObject<HTMLVideoElement>,
+							canvasRef: canvasRef as React.RefObject<HTMLCanvasElement>,
+							...screenshotCallbacks,
+						});
+					} catch (error) {
+						console.error("截图捕获失败:", error);
+					}
+					console.log("截图数量:", capturedSlidesRef.current.length);
+
+					// 合并重复出现的幻灯片（例如演讲者翻回之前的页面）
+					const timedSlides = finalizeSlideTimings(capturedSlidesRef.current, recordingTimeRef.current);
+					const { slides: uniqueSlides, duplicates } = deduplicateSlides(timedSlides, hashDistance);
+					duplicates.forEach((duplicate) => URL.revokeObjectURL(duplicate.url));
+					console.log("合并重复截图:", duplicates.length);
+
+					setSlides(uniqueSlides);
+					setScreenshotStats((prev) => ({ ...prev, duplicates: duplicates.length }));
 
 					// 清理视频预览，停止媒体流
 					if (videoRef.current) {
@@ -370,7 +459,7 @@ const ScreenRecordingPage = () => {
 				alert(`录制启动失败: ${error instanceof Error ? error.message : "未知错误"}`);
 			}
 		},
-		[mediaStream, screenshots.length, startTimer, startScreenshotCapture]
+		[mediaStream, startTimer, startScreenshotCapture, hashDistance, screenshotCallbacks]
 	);
 
 	// Pause/Resume recording
@@ -401,15 +490,22 @@ const ScreenRecordingPage = () => {
 	// Download PPT
 	const handleDownloadPPT = useCallback(async () => {
 		try {
-			await createAndDownloadPPT(screenshots, {
+			await createAndDownloadPPT(slides, {
 				title: "Screen Recording Analysis",
 				maxSlides: 256,
+				includeCameraFrames,
 			});
 		} catch (error) {
 			console.error("Error generating PPT:", error);
 			alert("PPT生成失败，请重试。");
 		}
-	}, [screenshots]);
+	}, [slides, includeCameraFrames]);
+
+	const visibleSlides =
+		contentFilter === "all" ? slides : slides.filter((slide) => slide.contentClass === contentFilter);
+	const pptSlideCount = includeCameraFrames
+		? slides.length
+		: slides.filter((slide) => slide.contentClass !== "camera").length;
 
 	// Download video
 	const handleDownloadVideo = useCallback(() => {
@@ -425,8 +521,9 @@ const ScreenRecordingPage = () => {
 	const handleReset = useCallback(() => {
 		setRecordingState("idle");
 		setRecordingTime(0);
-		setScreenshots([]);
-		setScreenshotStats({ total: 0, saved: 0 });
+		setSlides([]);
+		setScreenshotStats({ total: 0, saved: 0, duplicates: 0, blank: 0 });
+		capturedSlidesRef.current = [];
 		setVideoUrl("");
 
 		cleanup();
@@ -543,9 +640,9 @@ const ScreenRecordingPage = () => {
 								)}
 
 								{/* Screenshot counter */}
-								{screenshots.length > 0 && (recordingState === "recording" || recordingState === "paused") && (
+								{slides.length > 0 && (recordingState === "recording" || recordingState === "paused") && (
 									<div className="absolute bottom-4 right-4 bg-black/50 backdrop-blur-sm rounded px-3 py-1">
-										<span className="text-sm text-white">{screenshots.length} 张截图</span>
+										<span className="text-sm text-white">{slides.length} 张截图</span>
 									</div>
 								)}
 							</div>
@@ -559,16 +656,84 @@ const ScreenRecordingPage = () => {
 										<span className="text-sm text-zinc-300">录制设置</span>
 									</div>
 
-									<Button
-										variant="outline"
-										size="sm"
-										onClick={() => setWithAudio(!withAudio)}
-										className="border-zinc-700 text-white hover:bg-zinc-800"
-										disabled={recordingState !== "idle"}
-									>
-										{withAudio ? <Mic className="h-4 w-4 mr-2" /> : <MicOff className="h-4 w-4 mr-2" />}
-										{withAudio ? "包含麦克风" : "仅系统音频"}
-									</Button>
+									<div className="flex gap-2">
+										<select
+											value={comparatorId}
+											onChange={(e) => setComparatorId(e.target.value as FrameComparatorId)}
+											className="h-8 rounded-md border border-zinc-700 bg-zinc-900 px-2 text-sm text-white"
+											disabled={recordingState !== "idle"}
+											title={FRAME_COMPARATORS[comparatorId].description}
+										>
+											{Object.values(FRAME_COMPARATORS).map((comparator) => (
+												<option key={comparator.id} value={comparator.id}>
+													{comparator.label}
+												</option>
+											))}
+										</select>
+
+										<select
+											value={settleDuration}
+											onChange={(e) => setSettleDuration(Number(e.target.value))}
+											className="h-8 rounded-md border border-zinc-700 bg-zinc-900 px-2 text-sm text-white"
+											disabled={recordingState !== "idle"}
+											title="检测到变化后，等待画面稳定再截图，避免截到切换动画中的帧"
+										>
+											{SETTLE_DURATION_OPTIONS.map((duration) => (
+												<option key={duration} value={duration}>
+													{duration === 0 ? "立即截图" : `稳定${duration}秒后截图`}
+												</option>
+											))}
+										</select>
+
+										<select
+											value={hashDistance}
+											onChange={(e) => setHashDistance(Number(e.target.value))}
+											className="h-8 rounded-md border border-zinc-700 bg-zinc-900 px-2 text-sm text-white"
+											disabled={recordingState !== "idle"}
+											title="两页截图的感知哈希最多相差这么多位（共64位）时视为同一页并合并"
+										>
+											{HASH_DISTANCE_OPTIONS.map((distance) => (
+												<option key={distance} value={distance}>
+													{distance === 0 ? "仅合并完全相同的页" : `去重容差 ${distance}`}
+												</option>
+											))}
+										</select>
+
+										<Button
+											variant="outline"
+											size="sm"
+											onClick={() => setMergeProgressiveBuilds(!mergeProgressiveBuilds)}
+											className="border-zinc-700 text-white hover:bg-zinc-800"
+											disabled={recordingState !== "idle"}
+											title="逐条显示要点时只保留完整的幻灯片"
+										>
+											<Layers className="h-4 w-4 mr-2" />
+											{mergeProgressiveBuilds ? "合并逐步显示" : "保留每一步"}
+										</Button>
+
+										<Button
+											variant="outline"
+											size="sm"
+											onClick={() => setSuppressCursor(!suppressCursor)}
+											className="border-zinc-700 text-white hover:bg-zinc-800"
+											disabled={recordingState !== "idle"}
+											title="鼠标指针或激光笔移动时不触发截图"
+										>
+											<MousePointer2 className="h-4 w-4 mr-2" />
+											{suppressCursor ? "忽略鼠标指针" : "检测鼠标指针"}
+										</Button>
+
+										<Button
+											variant="outline"
+											size="sm"
+											onClick={() => setWithAudio(!withAudio)}
+											className="border-zinc-700 text-white hover:bg-zinc-800"
+											disabled={recordingState !== "idle"}
+										>
+											{withAudio ? <Mic className="h-4 w-4 mr-2" /> : <MicOff className="h-4 w-4 mr-2" />}
+											{withAudio ? "包含麦克风" : "仅系统音频"}
+										</Button>
+									</div>
 								</div>
 
 								{/* Action Buttons */}
@@ -642,10 +807,10 @@ const ScreenRecordingPage = () => {
 											<Button
 												onClick={handleDownloadPPT}
 												className="flex-1 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700"
-												disabled={screenshots.length === 0}
+												disabled={pptSlideCount === 0}
 											>
 												<Download className="mr-2 h-5 w-5" />
-												生成PPT ({screenshots.length}张)
+												生成PPT ({pptSlideCount}张)
 											</Button>
 
 											<Button
@@ -704,7 +869,7 @@ const ScreenRecordingPage = () => {
 
 								<div className="flex items-center justify-between">
 									<span className="text-zinc-400">截图数量</span>
-									<span>{screenshots.length}</span>
+									<span>{slides.length}</span>
 								</div>
 
 								{screenshotStats.total > 0 && (
@@ -715,21 +880,62 @@ const ScreenRecordingPage = () => {
 										</span>
 									</div>
 								)}
+
+								{screenshotStats.duplicates > 0 && (
+									<div className="flex items-center justify-between">
+										<span className="text-zinc-400">合并重复</span>
+										<span>{screenshotStats.duplicates}</span>
+									</div>
+								)}
+
+								{screenshotStats.blank > 0 && (
+									<div className="flex items-center justify-between">
+										<span className="text-zinc-400">丢弃空白帧</span>
+										<span>{screenshotStats.blank}</span>
+									</div>
+								)}
 							</div>
 						</div>
 
 						{/* Screenshots Preview */}
-						{screenshots.length > 0 && (
+						{slides.length > 0 && (
 							<div className="rounded-2xl bg-gradient-to-br from-zinc-900/50 to-zinc-800/30 border border-zinc-700/50 p-6 backdrop-blur-sm hover:border-zinc-600/70 transition-all duration-300">
 								<div className="flex items-center justify-between mb-4">
-									<h3 className="text-lg font-semibold">截图预览 ({screenshots.length}张)</h3>
+									<h3 className="text-lg font-semibold">截图预览 ({slides.length}张)</h3>
 									<div className="flex gap-2">
+										<select
+											value={contentFilter}
+											onChange={(e) => setContentFilter(e.target.value as FrameContentClass | "all")}
+											className="h-8 rounded-md border border-zinc-700 bg-zinc-900 px-2 text-sm text-white"
+											title="按画面类型筛选"
+										>
+											<option value="all">全部画面</option>
+											{(Object.keys(FRAME_CONTENT_CLASS_LABELS) as FrameContentClass[]).map((contentClass) => (
+												<option key={contentClass} value={contentClass}>
+													{`${FRAME_CONTENT_CLASS_LABELS[contentClass]} (${slides.filter((slide) => slide.contentClass === contentClass).length})`}
+												</option>
+											))}
+										</select>
+										<Button
+											variant="outline"
+											size="sm"
+											onClick={() => setIncludeCameraFrames(!includeCameraFrames)}
+											className="border-zinc-700 text-white hover:bg-zinc-800"
+											title="全屏摄像头画面默认不放入PPT"
+										>
+											{includeCameraFrames ? (
+												<Camera className="mr-1 h-4 w-4" />
+											) : (
+												<CameraOff className="mr-1 h-4 w-4" />
+											)}
+											{includeCameraFrames ? "PPT含摄像头画面" : "PPT不含摄像头画面"}
+										</Button>
 										<Button
 											onClick={() => {
 												// 批量下载功能
-												screenshots.forEach((screenshot, index) => {
+												slides.forEach((slide, index) => {
 													const link = document.createElement("a");
-													link.href = screenshot;
+													link.href = slide.url;
 													link.download = `screenshot_${String(index + 1).padStart(3, "0")}.png`;
 													document.body.appendChild(link);
 													link.click();
@@ -748,51 +954,58 @@ const ScreenRecordingPage = () => {
 
 								{/* 滚动预览区域 */}
 								<div className="max-h-96 overflow-y-auto space-y-3 pr-2 scrollbar-thin scrollbar-thumb-zinc-600 scrollbar-track-zinc-800">
-									{screenshots.map((screenshot, index) => (
-										<div
-											key={index}
-											className="aspect-video rounded-lg overflow-hidden border border-zinc-600/30 group relative"
-										>
-											<Image
-												src={screenshot}
-												alt={`Screenshot ${index + 1}`}
-												className="w-full h-full object-cover"
-												width={320}
-												height={180}
-												unoptimized
-											/>
-											<div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-												<div className="flex gap-2">
-													<Button
-														onClick={() => {
-															const link = document.createElement("a");
-															link.href = screenshot;
-															link.download = `screenshot_${String(index + 1).padStart(3, "0")}.png`;
-															document.body.appendChild(link);
-															link.click();
-															document.body.removeChild(link);
-														}}
-														size="sm"
-														variant="secondary"
-													>
-														<Download className="h-4 w-4" />
-													</Button>
-													<Button
-														onClick={() => {
-															window.open(screenshot, "_blank");
-														}}
-														size="sm"
-														variant="secondary"
-													>
-														<Eye className="h-4 w-4" />
-													</Button>
+									{visibleSlides.map((slide) => {
+										const index = slides.indexOf(slide);
+										return (
+											<div
+												key={slide.id}
+												className="aspect-video rounded-lg overflow-hidden border border-zinc-600/30 group relative"
+											>
+												<Image
+													src={slide.url}
+													alt={`Screenshot ${index + 1}`}
+													className="w-full h-full object-cover"
+													width={320}
+													height={180}
+													unoptimized
+												/>
+												<div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+													<div className="flex gap-2">
+														<Button
+															onClick={() => {
+																const link = document.createElement("a");
+																link.href = slide.url;
+																link.download = `screenshot_${String(index + 1).padStart(3, "0")}.png`;
+																document.body.appendChild(link);
+																link.click();
+																document.body.removeChild(link);
+															}}
+															size="sm"
+															variant="secondary"
+														>
+															<Download className="h-4 w-4" />
+														</Button>
+														<Button
+															onClick={() => {
+																window.open(slide.url, "_blank");
+															}}
+															size="sm"
+															variant="secondary"
+														>
+															<Eye className="h-4 w-4" />
+														</Button>
+													</div>
+												</div>
+												<div className="absolute top-2 left-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
+													#{index + 1}
+													{slide.contentClass !== "slide" && ` · ${FRAME_CONTENT_CLASS_LABELS[slide.contentClass]}`}
+												</div>
+												<div className="absolute bottom-2 left-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
+													{slide.appearances.map((appearance) => formatTime(appearance.startTime)).join(", ")}
 												</div>
 											</div>
-											<div className="absolute top-2 left-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
-												#{index + 1}
-											</div>
-										</div>
-									))}
+										);
+									})}
 								</div>
 							</div>
 						)}
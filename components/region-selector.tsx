@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import { normalizeRegion, type FrameRegion, type RegionSettings } from "@/lib/frame-region";
+import { orderQuadCorners, type FramePoint } from "@/lib/keystone";
+import { cn } from "@/lib/utils";
+
+export type RegionSelectionMode = "none" | "crop" | "exclude" | "keystone";
+
+interface RegionSelectorProps {
+	videoWidth: number;
+	videoHeight: number;
+	settings: RegionSettings;
+	mode: RegionSelectionMode;
+	// Detected slide area awaiting the user's confirmation, shown dashed until a crop is set
+	suggestedCrop?: FrameRegion | null;
+	onChange: (settings: RegionSettings) => void;
+}
+
+// Ignore accidental clicks that would produce a tiny rectangle
+const MIN_REGION_SIZE = 0.02;
+
+const toRegionStyle = (region: FrameRegion) => ({
+	left: `${region.x * 100}%`,
+	top: `${region.y * 100}%`,
+	width: `${region.width * 100}%`,
+	height: `${region.height * 100}%`,
+});
+
+const RegionSelector = ({ videoWidth, videoHeight, settings, mode, suggestedCrop, onChange }: RegionSelectorProps) => {
+	const containerRef = useRef<HTMLDivElement>(null);
+	const startPointRef = useRef<{ x: number; y: number } | null>(null);
+	const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+	const [draft, setDraft] = useState<FrameRegion | null>(null);
+	// Screen corners clicked so far while marking the keystone quad
+	const [corners, setCorners] = useState<FramePoint[]>([]);
+
+	useEffect(() => {
+		if (mode !== "keystone") setCorners([]);
+	}, [mode]);
+
+	useEffect(() => {
+		const container = containerRef.current;
+		if (!container) return;
+
+		const observer = new ResizeObserver(([entry]) => {
+			setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+		});
+		observer.observe(container);
+
+		return () => observer.disconnect();
+	}, []);
+
+	// The video uses object-contain, so the frame is letterboxed inside the container
+	const scale =
+		videoWidth && videoHeight ? Math.min(containerSize.width / videoWidth, containerSize.height / videoHeight) : 0;
+	const frameWidth = videoWidth * scale;
+	const frameHeight = videoHeight * scale;
+
+	const getPoint = (event: React.PointerEvent<HTMLDivElement>) => {
+		const rect = event.currentTarget.getBoundingClientRect();
+		return {
+			x: Math.max(0, Math.min(1, (event.clientX - rect.left) / rect.width)),
+			y: Math.max(0, Math.min(1, (event.clientY - rect.top) / rect.height)),
+		};
+	};
+
+	const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+		if (mode === "none") return;
+
+		// Corners are placed one click at a time; the fourth completes the quad.
+		// Crop and exclusions are drawn on the raw video and cannot follow the rectification, so they are cleared.
+		if (mode === "keystone") {
+			const nextCorners = [...corners, getPoint(event)];
+			if (nextCorners.length === 4) {
+				setCorners([]);
+				onChange({ crop: null, exclusions: [], keystone: orderQuadCorners(nextCorners) });
+			} else {
+				setCorners(nextCorners);
+			}
+			return;
+		}
+
+		event.currentTarget.setPointerCapture(event.pointerId);
+		const point = getPoint(event);
+		startPointRef.current = point;
+		setDraft({ x: point.x, y: point.y, width: 0, height: 0 });
+	};
+
+	const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+		const start = startPointRef.current;
+		if (!start) return;
+
+		const point = getPoint(event);
+		setDraft({ x: start.x, y: start.y, width: point.x - start.x, height: point.y - start.y });
+	};
+
+	const handlePointerUp = () => {
+		if (draft) {
+			const region = normalizeRegion(draft);
+
+			if (region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE) {
+				// Drawing on the raw video replaces keystone correction
+				if (mode === "crop") {
+					onChange({ ...settings, crop: region, keystone: null });
+				} else if (mode === "exclude") {
+					onChange({ ...settings, exclusions: [...settings.exclusions, region], keystone: null });
+				}
+			}
+		}
+
+		startPointRef.current = null;
+		setDraft(null);
+	};
+
+	return (
+		<div
+			ref={containerRef}
+			className={cn("absolute inset-0 overflow-hidden", mode === "none" && "pointer-events-none")}
+		>
+			<div
+				className={cn("absolute touch-none", mode !== "none" && "cursor-crosshair")}
+				style={{
+					left: (containerSize.width - frameWidth) / 2,
+					top: (containerSize.height - frameHeight) / 2,
+					width: frameWidth,
+					height: frameHeight,
+				}}
+				onPointerDown={handlePointerDown}
+				onPointerMove={handlePointerMove}
+				onPointerUp={handlePointerUp}
+				onPointerCancel={handlePointerUp}
+			>
+				{settings.crop && (
+					<div
+						className="absolute border-2 border-blue-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+						style={toRegionStyle(settings.crop)}
+					/>
+				)}
+
+				{suggestedCrop && !settings.crop && (
+					<div
+						className="absolute border-2 border-dashed border-amber-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.3)]"
+						style={toRegionStyle(suggestedCrop)}
+					/>
+				)}
+
+				{settings.keystone && (
+					<svg className="absolute inset-0 h-full w-full" viewBox="0 0 1 1" preserveAspectRatio="none">
+						<polygon
+							points={settings.keystone.map((point) => `${point.x},${point.y}`).join(" ")}
+							className="fill-blue-500/10 stroke-blue-400"
+							strokeWidth={2}
+							vectorEffect="non-scaling-stroke"
+						/>
+					</svg>
+				)}
+
+				{corners.map((corner, index) => (
+					<div
+						key={index}
+						className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-blue-300 bg-blue-500"
+						style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+					/>
+				))}
+
+				{settings.exclusions.map((exclusion, index) => (
+					<div
+						key={index}
+						className="absolute border-2 border-red-400 bg-red-500/30"
+						style={toRegionStyle(exclusion)}
+					/>
+				))}
+
+				{draft && (
+					<div
+						className={cn(
+							"absolute border-2 border-dashed",
+							mode === "crop" ? "border-blue-300 bg-blue-500/10" : "border-red-300 bg-red-500/10"
+						)}
+						style={toRegionStyle(normalizeRegion(draft))}
+					/>
+				)}
+			</div>
+		</div>
+	);
+};
+
+export { RegionSelector };
@@ -0,0 +1,131 @@
+// Speech-to-text for the recording's audio track through a pluggable, locally hosted ASR backend
+
+import type { SlideAppearance } from "./captured-slide";
+
+export interface TranscriptSegment {
+	// Seconds into the video
+	startTime: number;
+	endTime: number;
+	text: string;
+}
+
+export interface TranscriptionOptions {
+	// ISO-639-1 code, or undefined to let the recognizer detect the language
+	language?: string;
+	signal?: AbortSignal;
+}
+
+// Any recognizer that turns 16 kHz mono WAV into timed segments, e.g. whisper.cpp compiled to wasm or a local server
+export interface TranscriptionBackend {
+	readonly id: string;
+	readonly label: string;
+	transcribe(audio: Blob, options?: TranscriptionOptions): Promise<TranscriptSegment[]>;
+}
+
+// Default address of a locally running whisper.cpp `server`
+export const DEFAULT_TRANSCRIPTION_ENDPOINT = "http://127.0.0.1:8080/inference";
+
+interface VerboseTranscriptionResponse {
+	text?: string;
+	segments?: Array<{ start: number; end: number; text: string }>;
+}
+
+// Backend for whisper.cpp's `server` example and OpenAI-compatible stand-ins that answer with `verbose_json`
+export function createHttpTranscriptionBackend(
+	endpoint: string = DEFAULT_TRANSCRIPTION_ENDPOINT
+): TranscriptionBackend {
+	return {
+		id: "http",
+		label: "本地转写服务",
+		async transcribe(audio, options = {}) {
+			const form = new FormData();
+			form.append("file", audio, "audio.wav");
+			form.append("response_format", "verbose_json");
+			if (options.language) {
+				form.append("language", options.language);
+			}
+
+			const response = await fetch(endpoint, { method: "POST", body: form, signal: options.signal });
+			if (!response.ok) {
+				throw new Error(`Transcription service responded with ${response.status} ${response.statusText}`);
+			}
+
+			const result = (await response.json()) as VerboseTranscriptionResponse;
+
+			if (result.segments) {
+				return result.segments
+					.map((segment) => ({ startTime: segment.start, endTime: segment.end, text: segment.text.trim() }))
+					.filter((segment) => segment.text.length > 0);
+			}
+
+			// Servers without segment output only give us the full text; it sits before every slide and so
+			// ends up on the first one
+			const text = result.text?.trim();
+			return text ? [{ startTime: 0, endTime: 0, text }] : [];
+		},
+	};
+}
+
+// Read the 16-bit PCM samples out of a WAV file
+function decodeWavSamples(buffer: ArrayBuffer): Int16Array {
+	const view = new DataView(buffer);
+	let offset = 12; // Skip the RIFF header
+
+	while (offset + 8 <= view.byteLength) {
+		const chunkId = String.fromCharCode(
+			view.getUint8(offset),
+			view.getUint8(offset + 1),
+			view.getUint8(offset + 2),
+			view.getUint8(offset + 3)
+		);
+		const chunkSize = view.getUint32(offset + 4, true);
+
+		if (chunkId === "data") {
+			const size = Math.min(chunkSize, view.byteLength - offset - 8);
+			return new Int16Array(buffer.slice(offset + 8, offset + 8 + size - (size % 2)));
+		}
+
+		offset += 8 + chunkSize + (chunkSize % 2);
+	}
+
+	return new Int16Array(0);
+}
+
+// Normalized (0–1) peak amplitude per bucket, e.g. for drawing a waveform
+export async function computeAudioPeaks(audio: Blob, bucketCount: number = 200): Promise<number[]> {
+	const samples = decodeWavSamples(await audio.arrayBuffer());
+	if (samples.length === 0) return [];
+
+	const bucketSize = Math.max(1, Math.ceil(samples.length / bucketCount));
+	const peaks: number[] = [];
+
+	for (let start = 0; start < samples.length; start += bucketSize) {
+		const end = Math.min(start + bucketSize, samples.length);
+		let peak = 0;
+		for (let i = start; i < end; i++) {
+			peak = Math.max(peak, Math.abs(samples[i]));
+		}
+		peaks.push(peak / 32768);
+	}
+
+	return peaks;
+}
+
+// Text spoken while the slide was on screen; a segment belongs to the slide showing at its midpoint.
+// The first slide also gets what was said before it appeared, e.g. over an intro that was skipped as blank.
+export function getTranscriptForSlide(
+	segments: TranscriptSegment[],
+	appearances: SlideAppearance[],
+	isFirstSlide: boolean = false
+): string {
+	const firstAppearance = Math.min(...appearances.map(({ startTime }) => startTime));
+
+	return segments
+		.filter((segment) => {
+			const midpoint = (segment.startTime + segment.endTime) / 2;
+			if (isFirstSlide && midpoint < firstAppearance) return true;
+			return appearances.some(({ startTime, endTime }) => midpoint >= startTime && midpoint < endTime);
+		})
+		.map((segment) => segment.text)
+		.join(" ");
+}
@@ -0,0 +1,96 @@
+// Timestamp-aware slide model shared by the capture pipelines and PPT generation
+
+import type { FrameContentClass } from "./frame-classifier";
+import type { SlideTextLayer } from "./slide-ocr";
+
+export type SlideSource = "local-video" | "screen-recording";
+
+export interface SlideAppearance {
+	startTime: number;
+	endTime: number;
+}
+
+// A tall image stitched from several frames of a scrolling document
+export interface SlideScroll {
+	frameCount: number;
+	// Height of one frame, i.e. of the visible part of the document at any time
+	viewportHeight: number;
+}
+
+export interface CapturedSlide {
+	id: string;
+	blob: Blob;
+	url: string;
+	source: SlideSource;
+	// Seconds into the video (or recording) the slide first appeared and was replaced
+	startTime: number;
+	endTime: number;
+	// Every time range the slide was on screen, including revisits merged by deduplication
+	appearances: SlideAppearance[];
+	// Frame difference that triggered the capture, null for the first frame
+	score: number | null;
+	width: number;
+	height: number;
+	hash: string;
+	// Whether the frame shows a shared slide, the presenter's camera, or both
+	contentClass: FrameContentClass;
+	scroll: SlideScroll | null;
+	// OCR result, null until the slide has been recognized
+	textLayer: SlideTextLayer | null;
+}
+
+let slideCounter = 0;
+
+// Encode a canvas as the JPEG stored for a slide
+export function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob | null> {
+	return new Promise((resolve) => {
+		canvas.toBlob(resolve, "image/jpeg", 0.8);
+	});
+}
+
+export function createCapturedSlide(params: {
+	blob: Blob;
+	source: SlideSource;
+	time: number;
+	score: number | null;
+	width: number;
+	height: number;
+	hash: string;
+	contentClass?: FrameContentClass;
+}): CapturedSlide {
+	const { blob, source, time, score, width, height, hash, contentClass = "slide" } = params;
+	slideCounter++;
+
+	return {
+		id: `${source}-${Date.now()}-${slideCounter}`,
+		blob,
+		url: URL.createObjectURL(blob),
+		source,
+		startTime: time,
+		endTime: time,
+		appearances: [{ startTime: time, endTime: time }],
+		score,
+		width,
+		height,
+		hash,
+		contentClass,
+		scroll: null,
+		textLayer: null,
+	};
+}
+
+// Each slide lasts until the next one appears; the last one until the end of the video
+export function finalizeSlideTimings(slides: CapturedSlide[], endOfVideo: number): CapturedSlide[] {
+	return slides.map((slide, index) => {
+		const endTime = index < slides.length - 1 ? slides[index + 1].startTime : Math.max(endOfVideo, slide.startTime);
+		return {
+			...slide,
+			endTime,
+			appearances: [{ startTime: slide.startTime, endTime }],
+		};
+	});
+}
+
+export function revokeSlideUrls(slides: CapturedSlide[]): void {
+	slides.forEach((slide) => URL.revokeObjectURL(slide.url));
+}
@@ -0,0 +1,181 @@
+// Keep a moving mouse cursor or laser pointer from triggering captures or ending up on exported slides
+
+import { toLuminance } from "./utils";
+
+// Luminance change below this is compression noise rather than movement
+const PIXEL_TOLERANCE = 24;
+
+// A cursor-sized blob fits in a box this fraction of the frame width, and fills a fair share of it
+const MAX_BLOB_SIZE = 0.04;
+const MIN_BLOB_SIZE = 3;
+const MIN_BLOB_FILL = 0.15;
+
+// A moved pointer leaves two blobs of the same size: where it was, and where it now shows the same pixels
+const MAX_SIZE_MISMATCH = 2;
+// More moved pointers than this in one frame is content changing (e.g. a slide with the same layout), not a cursor
+const MAX_CURSOR_PAIRS = 2;
+
+interface ChangedBlob {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	pixelCount: number;
+}
+
+// Connected regions (8-neighbourhood) of pixels whose luminance changed between the two frames
+function findChangedBlobs(previous: Float32Array, current: Float32Array, width: number, height: number): ChangedBlob[] {
+	const changed = new Uint8Array(width * height);
+
+	for (let i = 0; i < changed.length; i++) {
+		changed[i] = Math.abs(previous[i] - current[i]) > PIXEL_TOLERANCE ? 1 : 0;
+	}
+
+	const blobs: ChangedBlob[] = [];
+	const stack: number[] = [];
+
+	for (let start = 0; start < changed.length; start++) {
+		if (changed[start] !== 1) continue;
+
+		// Visited pixels are marked with 2
+		changed[start] = 2;
+		stack.push(start);
+		let minX = width;
+		let minY = height;
+		let maxX = 0;
+		let maxY = 0;
+		let pixelCount = 0;
+
+		while (stack.length > 0) {
+			const index = stack.pop()!;
+			const x = index % width;
+			const y = (index - x) / width;
+			minX = Math.min(minX, x);
+			minY = Math.min(minY, y);
+			maxX = Math.max(maxX, x);
+			maxY = Math.max(maxY, y);
+			pixelCount++;
+
+			for (let dy = -1; dy <= 1; dy++) {
+				for (let dx = -1; dx <= 1; dx++) {
+					const nx = x + dx;
+					const ny = y + dy;
+					if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+
+					const neighbor = ny * width + nx;
+					if (changed[neighbor] === 1) {
+						changed[neighbor] = 2;
+						stack.push(neighbor);
+					}
+				}
+			}
+		}
+
+		blobs.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1, pixelCount });
+	}
+
+	return blobs;
+}
+
+function isCursorBlob(blob: ChangedBlob, frameWidth: number): boolean {
+	const maxSize = Math.max(MIN_BLOB_SIZE, Math.round(frameWidth * MAX_BLOB_SIZE));
+	return (
+		blob.width <= maxSize && blob.height <= maxSize && blob.pixelCount / (blob.width * blob.height) >= MIN_BLOB_FILL
+	);
+}
+
+// Whether the pointer drawn at `from` in the previous frame shows up at `to` in the current one
+function isSamePointer(
+	previous: Float32Array,
+	current: Float32Array,
+	width: number,
+	from: ChangedBlob,
+	to: ChangedBlob
+): boolean {
+	if (Math.abs(from.width - to.width) > MAX_SIZE_MISMATCH || Math.abs(from.height - to.height) > MAX_SIZE_MISMATCH) {
+		return false;
+	}
+
+	const w = Math.min(from.width, to.width);
+	const h = Math.min(from.height, to.height);
+	let error = 0;
+	for (let dy = 0; dy < h; dy++) {
+		for (let dx = 0; dx < w; dx++) {
+			error += Math.abs(previous[(from.y + dy) * width + from.x + dx] - current[(to.y + dy) * width + to.x + dx]);
+		}
+	}
+
+	return error / (w * h) <= PIXEL_TOLERANCE;
+}
+
+// Copy of `current` with moved cursors reverted to `previous`, so only real content changes remain.
+// Only pairs of blobs count: newly revealed text also makes small compact blobs, but nothing vanished elsewhere.
+export function suppressCursorChanges(previous: ImageData, current: ImageData): ImageData {
+	const { width, height } = current;
+	const previousLuminance = toLuminance(previous);
+	const currentLuminance = toLuminance(current);
+
+	const candidates = findChangedBlobs(previousLuminance, currentLuminance, width, height).filter((blob) =>
+		isCursorBlob(blob, width)
+	);
+
+	const cursorBlobs: ChangedBlob[] = [];
+	const paired = new Set<ChangedBlob>();
+	for (const from of candidates) {
+		if (paired.has(from)) continue;
+
+		const to = candidates.find(
+			(blob) =>
+				blob !== from && !paired.has(blob) && isSamePointer(previousLuminance, currentLuminance, width, from, blob)
+		);
+		if (!to) continue;
+
+		paired.add(from);
+		paired.add(to);
+		cursorBlobs.push(from, to);
+		if (cursorBlobs.length > MAX_CURSOR_PAIRS * 2) return current;
+	}
+
+	if (cursorBlobs.length === 0) return current;
+
+	const patched = new ImageData(new Uint8ClampedArray(current.data), width, height);
+
+	for (const blob of cursorBlobs) {
+		// One pixel of margin covers the cursor's anti-aliased edge
+		const x0 = Math.max(0, blob.x - 1);
+		const y0 = Math.max(0, blob.y - 1);
+		const x1 = Math.min(width, blob.x + blob.width + 1);
+		const y1 = Math.min(height, blob.y + blob.height + 1);
+
+		for (let y = y0; y < y1; y++) {
+			const rowStart = (y * width + x0) * 4;
+			const rowEnd = (y * width + x1) * 4;
+			patched.data.set(previous.data.subarray(rowStart, rowEnd), rowStart);
+		}
+	}
+
+	return patched;
+}
+
+// Per-pixel median of several frames of the same slide; a cursor that moved between them disappears
+export function medianOfFrames(frames: ImageData[]): ImageData {
+	const { width, height } = frames[0];
+	const result = new ImageData(width, height);
+	const values = new Array<number>(frames.length);
+
+	for (let i = 0; i < result.data.length; i++) {
+		// Most of a static slide is identical in every frame; only sort where the frames disagree
+		let identical = true;
+		for (let f = 0; f < frames.length; f++) {
+			values[f] = frames[f].data[i];
+			identical &&= values[f] === values[0];
+		}
+
+		if (!identical) {
+			values.sort((a, b) => a - b);
+		}
+		result.data[i] = values[Math.floor(values.length / 2)];
+	}
+
+	return result;
+}
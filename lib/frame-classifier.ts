@@ -0,0 +1,195 @@
+// Content checks on candidate frames before they become slides
+
+import { luminanceAt } from "./utils";
+
+// Frames are measured on a copy this wide; enough to keep thin text from averaging away
+const CLASSIFIER_WIDTH = 320;
+
+const HISTOGRAM_BINS = 64;
+
+// Frames are split into a grid of cells that are each judged as flat graphics or photographic
+const GRID_SIZE = 4;
+// Luminance steps below this count as flat, above the edge threshold as a hard (text or line) edge
+const FLAT_GRADIENT = 4;
+const EDGE_GRADIENT = 40;
+// Slides are drawn with a few flat colours: a cell is photographic when it has neither
+const MAX_PHOTO_FLAT_RATIO = 0.5;
+const MAX_PHOTO_PALETTE_COVERAGE = 0.6;
+const PALETTE_SIZE = 4;
+
+// Share of photographic cells (and skin in them) that makes a frame a camera view, or a slide with a camera tile
+const CAMERA_PHOTO_RATIO = 0.7;
+const CAMERA_SKIN_RATIO = 0.03;
+const MAX_CAMERA_EDGE_DENSITY = 0.15;
+const MIXED_PHOTO_RATIO = 0.1;
+const MIXED_SKIN_RATIO = 0.05;
+
+export type FrameContentClass = "slide" | "camera" | "mixed";
+
+export const FRAME_CONTENT_CLASS_LABELS: Record<FrameContentClass, string> = {
+	slide: "幻灯片",
+	camera: "摄像头",
+	mixed: "混合",
+};
+
+export interface FrameContentStats {
+	// Shannon entropy of the luminance histogram, in bits (0–6)
+	entropy: number;
+	// Standard deviation of the luminance, 0–255
+	standardDeviation: number;
+	// Fraction of pixels on a hard edge; high for text
+	edgeDensity: number;
+	// Fraction of pixels with a skin tone
+	skinRatio: number;
+	// Fraction of grid cells that look photographic rather than drawn
+	photoRatio: number;
+	// Fraction of skin-toned pixels within the photographic cells
+	photoSkinRatio: number;
+}
+
+export interface BlankFrameThresholds {
+	minEntropy: number;
+	minStandardDeviation: number;
+}
+
+// A single colour with compression noise stays under both; a white slide with one line of text does not
+export const DEFAULT_BLANK_FRAME_THRESHOLDS: BlankFrameThresholds = {
+	minEntropy: 0.02,
+	minStandardDeviation: 4,
+};
+
+let classifierCanvas: HTMLCanvasElement | null = null;
+
+// Chroma rule in YCbCr that covers most skin tones regardless of brightness
+function isSkinTone(r: number, g: number, b: number): boolean {
+	const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+	const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+	return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
+
+interface CellStats {
+	pixels: number;
+	flat: number;
+	skin: number;
+	// Pixel count per colour quantized to 4 bits per channel
+	colors: Map<number, number>;
+}
+
+function isPhotographicCell(cell: CellStats): boolean {
+	if (cell.pixels === 0) return false;
+
+	const topColors = [...cell.colors.values()].sort((a, b) => b - a).slice(0, PALETTE_SIZE);
+	const paletteCoverage = topColors.reduce((total, count) => total + count, 0) / cell.pixels;
+
+	return cell.flat / cell.pixels < MAX_PHOTO_FLAT_RATIO && paletteCoverage < MAX_PHOTO_PALETTE_COVERAGE;
+}
+
+export function calculateFrameContentStats(imageData: ImageData): FrameContentStats {
+	const { data, width, height } = imageData;
+	const pixelCount = width * height;
+	const histogram = new Uint32Array(HISTOGRAM_BINS);
+	const cells: CellStats[] = Array.from({ length: GRID_SIZE * GRID_SIZE }, () => ({
+		pixels: 0,
+		flat: 0,
+		skin: 0,
+		colors: new Map(),
+	}));
+	let sum = 0;
+	let sumOfSquares = 0;
+	let edges = 0;
+	let skin = 0;
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const i = (y * width + x) * 4;
+			const luminance = luminanceAt(data, i);
+			histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((luminance * HISTOGRAM_BINS) / 256))]++;
+			sum += luminance;
+			sumOfSquares += luminance * luminance;
+
+			// Forward differences; the last row and column reuse their neighbour's step
+			const right = x < width - 1 ? luminanceAt(data, i + 4) : luminance;
+			const below = y < height - 1 ? luminanceAt(data, i + width * 4) : luminance;
+			const gradient = Math.abs(right - luminance) + Math.abs(below - luminance);
+			if (gradient >= EDGE_GRADIENT) edges++;
+
+			const isSkin = isSkinTone(data[i], data[i + 1], data[i + 2]);
+			if (isSkin) skin++;
+
+			const cell =
+				cells[
+					Math.min(GRID_SIZE - 1, Math.floor((y * GRID_SIZE) / height)) * GRID_SIZE +
+						Math.min(GRID_SIZE - 1, Math.floor((x * GRID_SIZE) / width))
+				];
+			const color = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+			cell.pixels++;
+			if (gradient < FLAT_GRADIENT) cell.flat++;
+			if (isSkin) cell.skin++;
+			cell.colors.set(color, (cell.colors.get(color) ?? 0) + 1);
+		}
+	}
+
+	let entropy = 0;
+	for (const count of histogram) {
+		if (count === 0) continue;
+		const probability = count / pixelCount;
+		entropy -= probability * Math.log2(probability);
+	}
+
+	const photoCells = cells.filter(isPhotographicCell);
+	const photoPixels = photoCells.reduce((total, cell) => total + cell.pixels, 0);
+	const photoSkin = photoCells.reduce((total, cell) => total + cell.skin, 0);
+
+	const mean = sum / pixelCount;
+	return {
+		entropy,
+		standardDeviation: Math.sqrt(Math.max(0, sumOfSquares / pixelCount - mean * mean)),
+		edgeDensity: edges / pixelCount,
+		skinRatio: skin / pixelCount,
+		photoRatio: photoCells.length / cells.length,
+		photoSkinRatio: photoPixels > 0 ? photoSkin / photoPixels : 0,
+	};
+}
+
+// Measure a frame (or an already cropped canvas) at classifier resolution
+export function measureFrameContent(source: CanvasImageSource, width: number, height: number): FrameContentStats {
+	if (!classifierCanvas) {
+		classifierCanvas = document.createElement("canvas");
+	}
+
+	const context = classifierCanvas.getContext("2d", { willReadFrequently: true });
+	if (!context) throw new Error("Cannot get canvas context");
+
+	const scale = Math.min(1, CLASSIFIER_WIDTH / width);
+	classifierCanvas.width = Math.max(1, Math.round(width * scale));
+	classifierCanvas.height = Math.max(1, Math.round(height * scale));
+	context.drawImage(source, 0, 0, classifierCanvas.width, classifierCanvas.height);
+
+	return calculateFrameContentStats(context.getImageData(0, 0, classifierCanvas.width, classifierCanvas.height));
+}
+
+// Black, white and single-colour frames: fades, "loading" screens, paused screen shares
+export function isBlankFrame(
+	stats: FrameContentStats,
+	thresholds: BlankFrameThresholds = DEFAULT_BLANK_FRAME_THRESHOLDS
+): boolean {
+	return stats.entropy < thresholds.minEntropy || stats.standardDeviation < thresholds.minStandardDeviation;
+}
+
+// Shared slides are flat and text-heavy; a camera view is photographic with a person in it
+export function classifyFrameContent(stats: FrameContentStats): FrameContentClass {
+	if (
+		stats.photoRatio >= CAMERA_PHOTO_RATIO &&
+		stats.skinRatio >= CAMERA_SKIN_RATIO &&
+		stats.edgeDensity < MAX_CAMERA_EDGE_DENSITY
+	) {
+		return "camera";
+	}
+
+	// A slide with the presenter's camera tile beside or over it
+	if (stats.photoRatio >= MIXED_PHOTO_RATIO && stats.photoSkinRatio >= MIXED_SKIN_RATIO) {
+		return "mixed";
+	}
+
+	return "slide";
+}
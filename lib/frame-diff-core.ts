@@ -0,0 +1,89 @@
+// Frame downscaling and differencing shared by the diff worker and its main-thread fallback
+
+import { suppressCursorChanges } from "./cursor-suppression";
+import { getCropRect, maskImageData, type RegionSettings } from "./frame-region";
+import { getFrameComparator, isProgressiveBuild, type FrameComparatorId } from "./utils";
+
+// Frames are compared on a thumbnail no wider than this, which is plenty to detect slide changes
+export const ANALYSIS_MAX_WIDTH = 480;
+
+export type AnalysisCanvas = OffscreenCanvas | HTMLCanvasElement;
+type AnalysisContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+export interface FrameComparisonOptions {
+	region?: RegionSettings;
+	comparator?: FrameComparatorId;
+	detectProgressiveBuild?: boolean;
+	// Compare against the stored frame without replacing it, e.g. to probe several frames against one reference
+	keepReference?: boolean;
+	// Ignore small compact moving blobs such as a mouse cursor or laser pointer
+	suppressCursor?: boolean;
+}
+
+export interface FrameComparisonResult {
+	// Difference to the previous frame on the same channel, null for the first frame
+	difference: number | null;
+	progressiveBuild: boolean;
+}
+
+// Crop and downscale a frame into its analysis thumbnail with exclusion masks applied
+export function prepareAnalysisFrame(
+	canvas: AnalysisCanvas,
+	frame: CanvasImageSource,
+	frameWidth: number,
+	frameHeight: number,
+	region?: RegionSettings
+): ImageData {
+	const context = canvas.getContext("2d", { willReadFrequently: true }) as AnalysisContext | null;
+	if (!context) throw new Error("Cannot get canvas context");
+
+	const cropRect = getCropRect(region, frameWidth, frameHeight);
+	const scale = Math.min(1, ANALYSIS_MAX_WIDTH / cropRect.width);
+	const width = Math.max(1, Math.round(cropRect.width * scale));
+	const height = Math.max(1, Math.round(cropRect.height * scale));
+
+	if (canvas.width !== width || canvas.height !== height) {
+		canvas.width = width;
+		canvas.height = height;
+	}
+
+	context.drawImage(frame, cropRect.x, cropRect.y, cropRect.width, cropRect.height, 0, 0, width, height);
+	const imageData = context.getImageData(0, 0, width, height);
+
+	if (region && region.exclusions.length > 0) {
+		const scaledCrop = {
+			x: cropRect.x * scale,
+			y: cropRect.y * scale,
+			width,
+			height,
+		};
+		maskImageData(imageData, region.exclusions, scaledCrop, frameWidth * scale, frameHeight * scale);
+	}
+
+	return imageData;
+}
+
+// Compare a prepared frame to the previous one on its channel and remember it for the next call
+export function compareWithPrevious(
+	previousFrames: Map<string, ImageData>,
+	channel: string,
+	current: ImageData,
+	options: FrameComparisonOptions = {}
+): FrameComparisonResult {
+	const previous = previousFrames.get(channel);
+	if (!previous || !options.keepReference) {
+		previousFrames.set(channel, current);
+	}
+
+	// A changed crop or resolution starts a new comparison sequence
+	if (!previous || previous.width !== current.width || previous.height !== current.height) {
+		return { difference: null, progressiveBuild: false };
+	}
+
+	const compared = options.suppressCursor ? suppressCursorChanges(previous, current) : current;
+
+	return {
+		difference: getFrameComparator(options.comparator).compare(previous, compared),
+		progressiveBuild: options.detectProgressiveBuild === true && isProgressiveBuild(previous, compared),
+	};
+}
@@ -0,0 +1,171 @@
+// Frame-differencing engine: runs in a Web Worker with OffscreenCanvas, falls back to the main thread
+
+import {
+	compareWithPrevious,
+	prepareAnalysisFrame,
+	type FrameComparisonOptions,
+	type FrameComparisonResult,
+} from "./frame-diff-core";
+import { getFrameSize, type DecodedFrame } from "./frame-reader";
+
+// Typed message protocol between the page and the diff worker
+export type FrameDiffRequest =
+	| {
+			type: "compare";
+			id: number;
+			channel: string;
+			frame: ImageBitmap;
+			options: FrameComparisonOptions;
+	  }
+	| {
+			type: "reset";
+			channel?: string;
+	  };
+
+export type FrameDiffResponse =
+	| ({ type: "result"; id: number } & FrameComparisonResult)
+	| { type: "error"; id: number; message: string };
+
+export interface FrameDiffEngine {
+	readonly usesWorker: boolean;
+	compare(channel: string, frame: DecodedFrame, options?: FrameComparisonOptions): Promise<FrameComparisonResult>;
+	reset(channel?: string): void;
+	dispose(): void;
+}
+
+function createWorkerEngine(): FrameDiffEngine {
+	const worker = new Worker(new URL("./frame-diff.worker.ts", import.meta.url), { type: "module" });
+	const pending = new Map<
+		number,
+		{ resolve: (result: FrameComparisonResult) => void; reject: (error: Error) => void }
+	>();
+	let nextId = 0;
+
+	worker.onmessage = (event: MessageEvent<FrameDiffResponse>) => {
+		const response = event.data;
+		const request = pending.get(response.id);
+		if (!request) return;
+
+		pending.delete(response.id);
+		if (response.type === "error") {
+			request.reject(new Error(response.message));
+		} else {
+			request.resolve({ difference: response.difference, progressiveBuild: response.progressiveBuild });
+		}
+	};
+
+	worker.onerror = (event) => {
+		console.error("Frame diff worker error:", event.message);
+		pending.forEach((request) => request.reject(new Error(event.message || "Frame diff worker failed")));
+		pending.clear();
+	};
+
+	return {
+		usesWorker: true,
+		async compare(channel, frame, options = {}) {
+			// Grabbing the bitmap is the only per-frame work left on the main thread
+			const bitmap = await createImageBitmap(frame);
+			const id = nextId++;
+
+			return new Promise<FrameComparisonResult>((resolve, reject) => {
+				pending.set(id, { resolve, reject });
+				const request: FrameDiffRequest = { type: "compare", id, channel, frame: bitmap, options };
+				worker.postMessage(request, [bitmap]);
+			});
+		},
+		reset(channel) {
+			const request: FrameDiffRequest = { type: "reset", channel };
+			worker.postMessage(request);
+		},
+		dispose() {
+			worker.terminate();
+			pending.forEach((request) => request.reject(new Error("Frame diff engine disposed")));
+			pending.clear();
+		},
+	};
+}
+
+function createMainThreadEngine(): FrameDiffEngine {
+	const previousFrames = new Map<string, ImageData>();
+	const canvas = document.createElement("canvas");
+
+	return {
+		usesWorker: false,
+		async compare(channel, frame, options = {}) {
+			const { width, height } = getFrameSize(frame);
+			const current = prepareAnalysisFrame(canvas, frame, width, height, options.region);
+			return compareWithPrevious(previousFrames, channel, current, options);
+		},
+		reset(channel) {
+			if (channel) {
+				previousFrames.delete(channel);
+			} else {
+				previousFrames.clear();
+			}
+		},
+		dispose() {
+			previousFrames.clear();
+		},
+	};
+}
+
+// Switch to the main thread for good once the worker fails at run time (no OffscreenCanvas 2D context, a crash)
+// and retry the failed comparison there. Callers keep their engine reference, so the switch happens in here.
+function withMainThreadFallback(workerEngine: FrameDiffEngine): FrameDiffEngine {
+	let active = workerEngine;
+
+	return {
+		get usesWorker() {
+			return active.usesWorker;
+		},
+		async compare(channel, frame, options) {
+			const engine = active;
+			try {
+				return await engine.compare(channel, frame, options);
+			} catch (error) {
+				if (!engine.usesWorker) throw error;
+
+				// Other comparisons pending in the worker fail too; only the first one switches
+				if (engine === active) {
+					console.warn("Frame diff worker failed, using main thread:", error);
+					active = createMainThreadEngine();
+					engine.dispose();
+				}
+
+				// Reference frames stayed in the worker, so each channel starts a new sequence
+				return active.compare(channel, frame, options);
+			}
+		},
+		reset(channel) {
+			active.reset(channel);
+		},
+		dispose() {
+			active.dispose();
+		},
+	};
+}
+
+let sharedEngine: FrameDiffEngine | null = null;
+
+// Shared engine used by every extraction path so the worker is only started once
+export function getFrameDiffEngine(): FrameDiffEngine {
+	if (typeof window === "undefined") {
+		throw new Error("Frame diff engine can only be used on the client side");
+	}
+
+	if (!sharedEngine) {
+		const supportsWorker =
+			typeof Worker !== "undefined" &&
+			typeof OffscreenCanvas !== "undefined" &&
+			typeof createImageBitmap !== "undefined";
+
+		try {
+			sharedEngine = supportsWorker ? withMainThreadFallback(createWorkerEngine()) : createMainThreadEngine();
+		} catch (error) {
+			console.warn("Failed to start frame diff worker, using main thread:", error);
+			sharedEngine = createMainThreadEngine();
+		}
+	}
+
+	return sharedEngine;
+}
@@ -0,0 +1,40 @@
+// Web Worker that downscales and diffs frames off the main thread
+
+import { compareWithPrevious, prepareAnalysisFrame } from "./frame-diff-core";
+import type { FrameDiffRequest, FrameDiffResponse } from "./frame-diff-engine";
+
+const previousFrames = new Map<string, ImageData>();
+let analysisCanvas: OffscreenCanvas | null = null;
+
+function respond(response: FrameDiffResponse): void {
+	postMessage(response);
+}
+
+addEventListener("message", (event: MessageEvent<FrameDiffRequest>) => {
+	const request = event.data;
+
+	if (request.type === "reset") {
+		if (request.channel) {
+			previousFrames.delete(request.channel);
+		} else {
+			previousFrames.clear();
+		}
+		return;
+	}
+
+	const { id, channel, frame, options } = request;
+
+	try {
+		if (!analysisCanvas) {
+			analysisCanvas = new OffscreenCanvas(1, 1);
+		}
+
+		const current = prepareAnalysisFrame(analysisCanvas, frame, frame.width, frame.height, options.region);
+		const result = compareWithPrevious(previousFrames, channel, current, options);
+		respond({ type: "result", id, ...result });
+	} catch (error) {
+		respond({ type: "error", id, message: error instanceof Error ? error.message : String(error) });
+	} finally {
+		frame.close();
+	}
+});
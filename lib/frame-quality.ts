@@ -0,0 +1,106 @@
+// No-reference image quality scores used to pick the crispest frame of a slide
+
+import type { PixelRect } from "./frame-region";
+import { toLuminance } from "./utils";
+
+// Sharpness is measured on a copy no wider than this; fine text detail survives, full HD frames stay cheap
+const QUALITY_MAX_WIDTH = 960;
+
+// Codecs compress in 8×8 blocks of the full frame, so heavy compression shows up as steps on this grid.
+// Any scaling moves the grid off whole pixels, so blockiness is only measured at native resolution.
+const BLOCK_SIZE = 8;
+
+let qualityCanvas: HTMLCanvasElement | null = null;
+
+// Variance of the Laplacian: high for crisp edges, low for blurred or smeared frames
+export function calculateLaplacianVariance(imageData: ImageData): number {
+	const { width, height } = imageData;
+	if (width < 3 || height < 3) return 0;
+
+	const luminance = toLuminance(imageData);
+	let sum = 0;
+	let sumOfSquares = 0;
+	let count = 0;
+
+	for (let y = 1; y < height - 1; y++) {
+		for (let x = 1; x < width - 1; x++) {
+			const i = y * width + x;
+			const laplacian =
+				4 * luminance[i] - luminance[i - 1] - luminance[i + 1] - luminance[i - width] - luminance[i + width];
+			sum += laplacian;
+			sumOfSquares += laplacian * laplacian;
+			count++;
+		}
+	}
+
+	const mean = sum / count;
+	return sumOfSquares / count - mean * mean;
+}
+
+// Ratio of luminance steps across 8×8 block boundaries to steps inside blocks; about 1 for clean frames.
+// `gridOffset` is the image's x position in the frame, so the boundaries line up with the codec's.
+export function calculateBlockiness(imageData: ImageData, gridOffset: number = 0): number {
+	const { width, height } = imageData;
+	if (width <= BLOCK_SIZE) return 1;
+
+	const luminance = toLuminance(imageData);
+	let boundarySum = 0;
+	let boundaryCount = 0;
+	let innerSum = 0;
+	let innerCount = 0;
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width - 1; x++) {
+			const step = Math.abs(luminance[y * width + x + 1] - luminance[y * width + x]);
+			if ((gridOffset + x + 1) % BLOCK_SIZE === 0) {
+				boundarySum += step;
+				boundaryCount++;
+			} else {
+				innerSum += step;
+				innerCount++;
+			}
+		}
+	}
+
+	const innerMean = innerSum / innerCount;
+	if (innerMean === 0) return 1;
+
+	return boundarySum / boundaryCount / innerMean;
+}
+
+// Higher is better: sharpness, penalized when compression blocks are visible
+export function calculateFrameQuality(
+	imageData: ImageData,
+	blockiness: number = calculateBlockiness(imageData)
+): number {
+	return calculateLaplacianVariance(imageData) / Math.max(1, blockiness);
+}
+
+// Score the cropped area of a frame
+export function measureFrameQuality(frame: CanvasImageSource, cropRect: PixelRect): number {
+	if (!qualityCanvas) {
+		qualityCanvas = document.createElement("canvas");
+	}
+
+	const canvas = qualityCanvas;
+	const context = canvas.getContext("2d", { willReadFrequently: true });
+	if (!context) throw new Error("Cannot get canvas context");
+
+	const drawCrop = (width: number, height: number) => {
+		canvas.width = width;
+		canvas.height = height;
+		context.drawImage(frame, cropRect.x, cropRect.y, cropRect.width, cropRect.height, 0, 0, width, height);
+		return context.getImageData(0, 0, width, height);
+	};
+
+	const nativeData = drawCrop(cropRect.width, cropRect.height);
+	const blockiness = calculateBlockiness(nativeData, cropRect.x);
+
+	const scale = Math.min(1, QUALITY_MAX_WIDTH / cropRect.width);
+	const sharpnessData =
+		scale < 1
+			? drawCrop(Math.max(1, Math.round(cropRect.width * scale)), Math.max(1, Math.round(cropRect.height * scale)))
+			: nativeData;
+
+	return calculateFrameQuality(sharpnessData, blockiness);
+}
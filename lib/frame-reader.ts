@@ -0,0 +1,178 @@
+// Frame access for extraction: seeking an HTMLVideoElement, or decoding sequentially with WebCodecs via MP4Clip
+
+import type { MP4Clip } from "@webav/av-cliper";
+
+import { checkBrowserCapabilities } from "./video-diagnostics";
+
+// A decoded picture: the video element at its current position, a WebCodecs frame, or a corrected copy on a canvas
+export type DecodedFrame = HTMLVideoElement | VideoFrame | HTMLCanvasElement;
+
+export type FrameReaderKind = "element" | "webcodecs";
+
+// Per-attempt seek timeout; seeks near the end of variable-frame-rate files sometimes never complete
+const SEEK_TIMEOUT_MS = 3000;
+const SEEK_RETRIES = 2;
+// Each retry aims slightly earlier, which usually lands on a frame the browser can decode
+const SEEK_RETRY_OFFSET = 0.1;
+// requestVideoFrameCallback may not fire for a paused video that is off screen
+const FRAME_CALLBACK_GRACE_MS = 250;
+
+export interface FrameReader {
+	readonly kind: FrameReaderKind;
+	// Seconds
+	readonly duration: number;
+	readonly width: number;
+	readonly height: number;
+	// Frame at the last successful seek
+	readonly frame: DecodedFrame | null;
+	// Move to `time` seconds; null if no frame could be produced there
+	seek(time: number): Promise<DecodedFrame | null>;
+	// Timestamps that had to be skipped because no frame could be produced
+	readonly skippedTimes: number[];
+	dispose(): void;
+}
+
+export function getFrameSize(frame: DecodedFrame): { width: number; height: number } {
+	if (frame instanceof HTMLVideoElement) return { width: frame.videoWidth, height: frame.videoHeight };
+	if (frame instanceof HTMLCanvasElement) return { width: frame.width, height: frame.height };
+	return { width: frame.displayWidth, height: frame.displayHeight };
+}
+
+// Resolve true once the frame at `time` is ready to be drawn, false if the seek did not finish in time
+function waitForSeek(video: HTMLVideoElement, time: number, timeoutMs: number): Promise<boolean> {
+	return new Promise((resolve) => {
+		let finished = false;
+		const timers: ReturnType<typeof setTimeout>[] = [];
+
+		const finish = (success: boolean) => {
+			if (finished) return;
+			finished = true;
+			timers.forEach(clearTimeout);
+			resolve(success);
+		};
+
+		const handleSeeked = () => {
+			// `seeked` can fire before the new frame is decoded; wait for it to be presented where supported
+			if (typeof video.requestVideoFrameCallback === "function") {
+				video.requestVideoFrameCallback(() => finish(true));
+				timers.push(setTimeout(() => finish(true), FRAME_CALLBACK_GRACE_MS));
+			} else {
+				finish(true);
+			}
+		};
+
+		timers.push(setTimeout(() => finish(false), timeoutMs));
+		// A late `seeked` after a timeout is ignored once `finished` is set
+		video.addEventListener("seeked", handleSeeked, { once: true });
+		video.currentTime = time;
+	});
+}
+
+// Seek with a timeout per attempt and a few retries; false means the timestamp should be skipped
+export async function seekVideoElement(
+	video: HTMLVideoElement,
+	time: number,
+	options: { timeoutMs?: number; retries?: number } = {}
+): Promise<boolean> {
+	const { timeoutMs = SEEK_TIMEOUT_MS, retries = SEEK_RETRIES } = options;
+
+	for (let attempt = 0; attempt <= retries; attempt++) {
+		const target = Math.max(0, time - attempt * SEEK_RETRY_OFFSET);
+		if (await waitForSeek(video, target, timeoutMs)) return true;
+
+		console.warn(`Seek to ${target.toFixed(2)}s timed out (attempt ${attempt + 1}/${retries + 1})`);
+	}
+
+	return false;
+}
+
+function createElementFrameReader(video: HTMLVideoElement): FrameReader {
+	let frame: DecodedFrame | null = null;
+	const skippedTimes: number[] = [];
+
+	return {
+		kind: "element",
+		duration: video.duration,
+		width: video.videoWidth,
+		height: video.videoHeight,
+		get frame() {
+			return frame;
+		},
+		async seek(time) {
+			if (!(await seekVideoElement(video, time))) {
+				skippedTimes.push(time);
+				return null;
+			}
+
+			frame = video;
+			return frame;
+		},
+		skippedTimes,
+		dispose() {
+			frame = null;
+		},
+	};
+}
+
+// MP4Clip demuxes the file and decodes forward from the last position, so ascending seeks need no keyframe hunt
+async function createWebCodecsFrameReader(file: Blob): Promise<FrameReader> {
+	const { MP4Clip } = await import("@webav/av-cliper");
+
+	const clip: MP4Clip = new MP4Clip(file.stream(), { audio: false });
+	const { duration, width, height } = await clip.ready;
+	let frame: VideoFrame | null = null;
+	const skippedTimes: number[] = [];
+
+	return {
+		kind: "webcodecs",
+		duration: duration / 1e6,
+		width,
+		height,
+		get frame() {
+			return frame;
+		},
+		async seek(time) {
+			// Decoder errors and MP4Clip's internal timeout skip the timestamp, as a failed element seek does
+			let video: VideoFrame | undefined;
+			try {
+				({ video } = await clip.tick(Math.round(time * 1e6)));
+			} catch (error) {
+				console.warn(`Decoding at ${time.toFixed(2)}s failed:`, error);
+			}
+
+			if (!video) {
+				skippedTimes.push(time);
+				return null;
+			}
+
+			frame?.close();
+			frame = video;
+			return frame;
+		},
+		skippedTimes,
+		dispose() {
+			frame?.close();
+			frame = null;
+			clip.destroy();
+		},
+	};
+}
+
+function isMp4(file: Blob): boolean {
+	return file.type === "video/mp4" || (file instanceof File && file.name.toLowerCase().endsWith(".mp4"));
+}
+
+// Prefer sequential WebCodecs decoding when the browser supports it and the file is an MP4 MP4Clip can demux
+export async function createFrameReader(video: HTMLVideoElement, file?: Blob): Promise<FrameReader> {
+	if (file && isMp4(file) && checkBrowserCapabilities().hasWebCodecs) {
+		try {
+			const reader = await createWebCodecsFrameReader(file);
+			console.log("Using WebCodecs frame reader");
+			return reader;
+		} catch (error) {
+			console.warn("WebCodecs frame reader unavailable, seeking the video element instead:", error);
+		}
+	}
+
+	return createElementFrameReader(video);
+}
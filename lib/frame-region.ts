@@ -0,0 +1,138 @@
+// Region-of-interest helpers: crop rectangle and exclusion masks for slide detection and export
+
+import type { KeystoneQuad } from "./keystone";
+
+// Rectangle in normalized coordinates (0-1) relative to the full video frame
+export interface FrameRegion {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+export interface RegionSettings {
+	crop: FrameRegion | null;
+	exclusions: FrameRegion[];
+	// Corners of a projector screen filmed at an angle; frames are rectified to it instead of cropped
+	keystone: KeystoneQuad | null;
+}
+
+export interface PixelRect {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+const REGION_STORAGE_PREFIX = "video2ppt:region:";
+
+export const EMPTY_REGION_SETTINGS: RegionSettings = { crop: null, exclusions: [], keystone: null };
+
+// Clamp a normalized region to the frame and normalize negative sizes from reverse drags
+export function normalizeRegion(region: FrameRegion): FrameRegion {
+	const x1 = Math.max(0, Math.min(1, Math.min(region.x, region.x + region.width)));
+	const y1 = Math.max(0, Math.min(1, Math.min(region.y, region.y + region.height)));
+	const x2 = Math.max(0, Math.min(1, Math.max(region.x, region.x + region.width)));
+	const y2 = Math.max(0, Math.min(1, Math.max(region.y, region.y + region.height)));
+
+	return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
+
+// Overlap of two regions, or null if they do not overlap
+export function intersectRegions(a: FrameRegion, b: FrameRegion): FrameRegion | null {
+	const x = Math.max(a.x, b.x);
+	const y = Math.max(a.y, b.y);
+	const width = Math.min(a.x + a.width, b.x + b.width) - x;
+	const height = Math.min(a.y + a.height, b.y + b.height) - y;
+
+	return width > 0 && height > 0 ? { x, y, width, height } : null;
+}
+
+// Convert a normalized region to whole-pixel coordinates within a frame
+export function toPixelRect(region: FrameRegion, frameWidth: number, frameHeight: number): PixelRect {
+	const x = Math.round(region.x * frameWidth);
+	const y = Math.round(region.y * frameHeight);
+	const width = Math.max(1, Math.min(frameWidth - x, Math.round(region.width * frameWidth)));
+	const height = Math.max(1, Math.min(frameHeight - y, Math.round(region.height * frameHeight)));
+
+	return { x, y, width, height };
+}
+
+// Pixel rectangle of the frame that is analyzed and exported (the whole frame without a crop)
+export function getCropRect(settings: RegionSettings | undefined, frameWidth: number, frameHeight: number): PixelRect {
+	if (!settings?.crop) {
+		return { x: 0, y: 0, width: frameWidth, height: frameHeight };
+	}
+
+	return toPixelRect(settings.crop, frameWidth, frameHeight);
+}
+
+// Blank out excluded areas (webcam tiles, chat sidebars) so they never count as a change
+export function maskImageData(
+	imageData: ImageData,
+	exclusions: FrameRegion[],
+	cropRect: PixelRect,
+	frameWidth: number,
+	frameHeight: number
+): void {
+	for (const exclusion of exclusions) {
+		const rect = toPixelRect(exclusion, frameWidth, frameHeight);
+
+		// Translate into crop-relative coordinates and clip to the cropped image
+		const startX = Math.max(0, rect.x - cropRect.x);
+		const startY = Math.max(0, rect.y - cropRect.y);
+		const endX = Math.min(imageData.width, rect.x + rect.width - cropRect.x);
+		const endY = Math.min(imageData.height, rect.y + rect.height - cropRect.y);
+
+		for (let y = startY; y < endY; y++) {
+			for (let x = startX; x < endX; x++) {
+				const index = (y * imageData.width + x) * 4;
+				imageData.data[index] = 0;
+				imageData.data[index + 1] = 0;
+				imageData.data[index + 2] = 0;
+			}
+		}
+	}
+}
+
+// Draw the cropped video frame onto the canvas at full resolution for export
+export function drawRegionFrame(
+	frame: CanvasImageSource,
+	canvas: HTMLCanvasElement,
+	context: CanvasRenderingContext2D,
+	cropRect: PixelRect
+): void {
+	context.drawImage(frame, cropRect.x, cropRect.y, cropRect.width, cropRect.height, 0, 0, canvas.width, canvas.height);
+}
+
+// Meeting layouts are identified by their resolution so repeat uploads reuse the same regions
+export function getLayoutKey(frameWidth: number, frameHeight: number): string {
+	return `${frameWidth}x${frameHeight}`;
+}
+
+export function loadRegionSettings(layoutKey: string): RegionSettings | null {
+	if (typeof window === "undefined") return null;
+
+	try {
+		const stored = window.sessionStorage.getItem(REGION_STORAGE_PREFIX + layoutKey);
+		// Settings saved before keystone correction existed lack the field
+		return stored ? { ...EMPTY_REGION_SETTINGS, ...(JSON.parse(stored) as Partial<RegionSettings>) } : null;
+	} catch (error) {
+		console.warn("Failed to load region settings:", error);
+		return null;
+	}
+}
+
+export function saveRegionSettings(layoutKey: string, settings: RegionSettings): void {
+	if (typeof window === "undefined") return;
+
+	try {
+		if (!settings.crop && settings.exclusions.length === 0 && !settings.keystone) {
+			window.sessionStorage.removeItem(REGION_STORAGE_PREFIX + layoutKey);
+		} else {
+			window.sessionStorage.setItem(REGION_STORAGE_PREFIX + layoutKey, JSON.stringify(settings));
+		}
+	} catch (error) {
+		console.warn("Failed to save region settings:", error);
+	}
+}
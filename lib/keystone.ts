@@ -0,0 +1,287 @@
+// Keystone correction for projector screens filmed at an angle: warp the marked quadrilateral to a rectangle
+
+import type { FrameReader } from "./frame-reader";
+import { luminanceAt } from "./utils";
+
+// Point in normalized coordinates (0-1) relative to the full video frame
+export interface FramePoint {
+	x: number;
+	y: number;
+}
+
+// Corners of the projected screen: top-left, top-right, bottom-right, bottom-left
+export type KeystoneQuad = [FramePoint, FramePoint, FramePoint, FramePoint];
+
+// Auto-detection works on a copy this wide
+const DETECTION_WIDTH = 320;
+// The bright screen has to cover at least this fraction of the frame to be trusted
+const MIN_SCREEN_AREA = 0.1;
+
+// Sort four points into top-left, top-right, bottom-right, bottom-left order
+export function orderQuadCorners(points: FramePoint[]): KeystoneQuad {
+	const bySum = [...points].sort((a, b) => a.x + a.y - (b.x + b.y));
+	const byDifference = [...points].sort((a, b) => a.x - a.y - (b.x - b.y));
+
+	return [bySum[0], byDifference[byDifference.length - 1], bySum[bySum.length - 1], byDifference[0]];
+}
+
+function distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
+	return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// Size of the rectified image: the longer of each pair of opposite edges, in source pixels
+export function getKeystoneOutputSize(
+	quad: KeystoneQuad,
+	frameWidth: number,
+	frameHeight: number
+): { width: number; height: number } {
+	const [topLeft, topRight, bottomRight, bottomLeft] = quad.map((point) => ({
+		x: point.x * frameWidth,
+		y: point.y * frameHeight,
+	}));
+
+	return {
+		width: Math.max(1, Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)))),
+		height: Math.max(1, Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)))),
+	};
+}
+
+// Solve the 8×8 system for the homography taking output pixel (u, v) to source pixel (x, y)
+function computeHomography(
+	source: Array<{ x: number; y: number }>,
+	outputWidth: number,
+	outputHeight: number
+): number[] {
+	const destination = [
+		{ u: 0, v: 0 },
+		{ u: outputWidth, v: 0 },
+		{ u: outputWidth, v: outputHeight },
+		{ u: 0, v: outputHeight },
+	];
+
+	const matrix: number[][] = [];
+	for (let i = 0; i < 4; i++) {
+		const { u, v } = destination[i];
+		const { x, y } = source[i];
+		matrix.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+		matrix.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+	}
+
+	// Gaussian elimination with partial pivoting
+	for (let column = 0; column < 8; column++) {
+		let pivot = column;
+		for (let row = column + 1; row < 8; row++) {
+			if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) pivot = row;
+		}
+		[matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+
+		for (let row = 0; row < 8; row++) {
+			if (row === column) continue;
+			const factor = matrix[row][column] / matrix[column][column];
+			for (let k = column; k < 9; k++) {
+				matrix[row][k] -= factor * matrix[column][k];
+			}
+		}
+	}
+
+	return [...matrix.map((row, index) => row[8] / row[index]), 1];
+}
+
+// Rectify the quad of `source` into an image of the given size, sampling bilinearly
+export function warpPerspective(
+	source: ImageData,
+	quad: KeystoneQuad,
+	outputWidth: number,
+	outputHeight: number
+): ImageData {
+	const { width, height, data } = source;
+	const h = computeHomography(
+		quad.map((point) => ({ x: point.x * width, y: point.y * height })),
+		outputWidth,
+		outputHeight
+	);
+	const output = new ImageData(outputWidth, outputHeight);
+
+	for (let v = 0; v < outputHeight; v++) {
+		for (let u = 0; u < outputWidth; u++) {
+			// Sample at pixel centres
+			const cu = u + 0.5;
+			const cv = v + 0.5;
+			const w = h[6] * cu + h[7] * cv + h[8];
+			const x = Math.max(0, Math.min(width - 1.001, (h[0] * cu + h[1] * cv + h[2]) / w - 0.5));
+			const y = Math.max(0, Math.min(height - 1.001, (h[3] * cu + h[4] * cv + h[5]) / w - 0.5));
+
+			const x0 = Math.floor(x);
+			const y0 = Math.floor(y);
+			const fx = x - x0;
+			const fy = y - y0;
+			const i00 = (y0 * width + x0) * 4;
+			const i10 = i00 + 4;
+			const i01 = i00 + width * 4;
+			const i11 = i01 + 4;
+			const o = (v * outputWidth + u) * 4;
+
+			for (let c = 0; c < 3; c++) {
+				const top = data[i00 + c] * (1 - fx) + data[i10 + c] * fx;
+				const bottom = data[i01 + c] * (1 - fx) + data[i11 + c] * fx;
+				output.data[o + c] = top * (1 - fy) + bottom * fy;
+			}
+			output.data[o + 3] = 255;
+		}
+	}
+
+	return output;
+}
+
+// Otsu's threshold on a luminance histogram
+function otsuThreshold(histogram: Uint32Array, total: number): number {
+	let sum = 0;
+	for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+	let backgroundSum = 0;
+	let backgroundCount = 0;
+	let bestThreshold = 128;
+	let bestVariance = 0;
+
+	for (let t = 0; t < 256; t++) {
+		backgroundCount += histogram[t];
+		if (backgroundCount === 0) continue;
+		const foregroundCount = total - backgroundCount;
+		if (foregroundCount === 0) break;
+
+		backgroundSum += t * histogram[t];
+		const meanDifference = backgroundSum / backgroundCount - (sum - backgroundSum) / foregroundCount;
+		const variance = backgroundCount * foregroundCount * meanDifference * meanDifference;
+		if (variance > bestVariance) {
+			bestVariance = variance;
+			bestThreshold = t;
+		}
+	}
+
+	return bestThreshold;
+}
+
+// Find the projected screen as the largest bright region of the frame and return its corners
+export function detectScreenQuad(imageData: ImageData): KeystoneQuad | null {
+	const { data, width, height } = imageData;
+	const luminance = new Uint8Array(width * height);
+	const histogram = new Uint32Array(256);
+
+	for (let i = 0; i < luminance.length; i++) {
+		luminance[i] = Math.round(luminanceAt(data, i * 4));
+		histogram[luminance[i]]++;
+	}
+
+	const threshold = otsuThreshold(histogram, luminance.length);
+
+	// Label bright regions and keep the corners of the largest one
+	const visited = new Uint8Array(width * height);
+	const stack: number[] = [];
+	let bestArea = 0;
+	let bestCorners: FramePoint[] | null = null;
+
+	for (let start = 0; start < luminance.length; start++) {
+		if (visited[start] || luminance[start] <= threshold) continue;
+
+		visited[start] = 1;
+		stack.push(start);
+		let area = 0;
+		let topLeft = start;
+		let topRight = start;
+		let bottomRight = start;
+		let bottomLeft = start;
+		const sumOf = (index: number) => (index % width) + Math.floor(index / width);
+		const differenceOf = (index: number) => (index % width) - Math.floor(index / width);
+
+		while (stack.length > 0) {
+			const index = stack.pop()!;
+			area++;
+			if (sumOf(index) < sumOf(topLeft)) topLeft = index;
+			if (sumOf(index) > sumOf(bottomRight)) bottomRight = index;
+			if (differenceOf(index) > differenceOf(topRight)) topRight = index;
+			if (differenceOf(index) < differenceOf(bottomLeft)) bottomLeft = index;
+
+			const x = index % width;
+			const neighbors = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+			for (const neighbor of neighbors) {
+				if (neighbor < 0 || neighbor >= luminance.length) continue;
+				if (visited[neighbor] || luminance[neighbor] <= threshold) continue;
+				visited[neighbor] = 1;
+				stack.push(neighbor);
+			}
+		}
+
+		if (area > bestArea) {
+			bestArea = area;
+			bestCorners = [topLeft, topRight, bottomRight, bottomLeft].map((index) => ({
+				x: (index % width) / width,
+				y: Math.floor(index / width) / height,
+			}));
+		}
+	}
+
+	if (!bestCorners || bestArea < luminance.length * MIN_SCREEN_AREA) return null;
+
+	return bestCorners as KeystoneQuad;
+}
+
+// Auto-detect the screen corners in the frame currently shown by the video element
+export function detectScreenQuadInVideo(video: HTMLVideoElement): KeystoneQuad | null {
+	const canvas = document.createElement("canvas");
+	const scale = Math.min(1, DETECTION_WIDTH / video.videoWidth);
+	canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+	canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+
+	const context = canvas.getContext("2d", { willReadFrequently: true });
+	if (!context) return null;
+
+	context.drawImage(video, 0, 0, canvas.width, canvas.height);
+	return detectScreenQuad(context.getImageData(0, 0, canvas.width, canvas.height));
+}
+
+// Wrap a reader so every frame it produces is already rectified
+export function createKeystoneFrameReader(reader: FrameReader, quad: KeystoneQuad): FrameReader {
+	const { width, height } = getKeystoneOutputSize(quad, reader.width, reader.height);
+
+	const sourceCanvas = document.createElement("canvas");
+	sourceCanvas.width = reader.width;
+	sourceCanvas.height = reader.height;
+	const sourceContext = sourceCanvas.getContext("2d", { willReadFrequently: true });
+
+	const outputCanvas = document.createElement("canvas");
+	outputCanvas.width = width;
+	outputCanvas.height = height;
+	const outputContext = outputCanvas.getContext("2d");
+
+	if (!sourceContext || !outputContext) throw new Error("Cannot get canvas context");
+
+	let frame: HTMLCanvasElement | null = null;
+
+	return {
+		kind: reader.kind,
+		duration: reader.duration,
+		width,
+		height,
+		get frame() {
+			return frame;
+		},
+		async seek(time) {
+			const source = await reader.seek(time);
+			if (!source) return null;
+
+			sourceContext.drawImage(source, 0, 0, sourceCanvas.width, sourceCanvas.height);
+			const sourceData = sourceContext.getImageData(0, 0, sourceCanvas.width, sourceCanvas.height);
+			outputContext.putImageData(warpPerspective(sourceData, quad, width, height), 0, 0);
+
+			frame = outputCanvas;
+			return frame;
+		},
+		get skippedTimes() {
+			return reader.skippedTimes;
+		},
+		dispose() {
+			frame = null;
+			reader.dispose();
+		},
+	};
+}
@@ -1,24 +1,252 @@
-import { generateTimestamp } from "./utils";
+import type PptxGenJS from "pptxgenjs";
+
+import { getTranscriptForSlide, type TranscriptSegment } from "./audio-transcription";
+import { revokeSlideUrls, type CapturedSlide, type SlideAppearance } from "./captured-slide";
+import { paginateScrollSlides, type ScrollSlideLayout } from "./scroll-stitching";
+import { deriveSlideTitle, type SlideTextLayer } from "./slide-ocr";
+import { formatTime, generateTimestamp } from "./utils";
 
 interface PPTSlideData {
 	image: string;
 	title?: string;
 	description?: string;
+	startTime?: number;
+	endTime?: number;
+}
+
+// Rows per page of the timestamp index at the end of the deck, fewer where the layout is too short
+const INDEX_ROWS_PER_SLIDE = 12;
+const INDEX_TITLE_Y = 0.3;
+const INDEX_TITLE_HEIGHT = 0.7;
+const INDEX_TABLE_Y = 1.2;
+const INDEX_ROW_HEIGHT = 0.3;
+// Share of the table width given to the slide number column
+const INDEX_NUMBER_COLUMN_SHARE = 0.15;
+
+// Agenda entries per page after the title slide, fewer where the layout is too short
+const AGENDA_ITEMS_PER_SLIDE = 12;
+const AGENDA_Y = 0.7;
+const AGENDA_LINE_HEIGHT = 0.3;
+
+// Screenshot and agenda slides keep their title in a title placeholder so PowerPoint's outline view picks it up
+const CONTENT_MASTER = "VIDEO2PPT_CONTENT";
+
+// Slide size in inches; `name` is a built-in pptxgenjs layout or one defined for this deck
+interface DeckLayout {
+	name: string;
+	width: number;
+	height: number;
+}
+
+const LAYOUT_16X9: DeckLayout = { name: "LAYOUT_16x9", width: 10, height: 5.625 };
+const LAYOUT_16X10: DeckLayout = { name: "LAYOUT_16x10", width: 10, height: 6.25 };
+const LAYOUT_4X3: DeckLayout = { name: "LAYOUT_4x3", width: 10, height: 7.5 };
+const BUILT_IN_LAYOUTS = [LAYOUT_16X9, LAYOUT_16X10, LAYOUT_4X3];
+
+// Frames whose aspect ratio is further than this (relative) from every built-in layout get a custom one
+const MAX_LAYOUT_ASPECT_DEVIATION = 0.05;
+const CUSTOM_LAYOUT_NAME = "VIDEO2PPT_CUSTOM";
+// Custom layouts keep the built-in 10 inch long side; extreme ratios are clamped so text still fits
+const CUSTOM_LAYOUT_LONG_SIDE = 10;
+const MIN_CUSTOM_ASPECT = 1 / 2;
+const MAX_CUSTOM_ASPECT = 3;
+
+// Screenshots are framed by the title strip above and the footer below
+const SCREENSHOT_MARGIN = 0.5;
+const FOOTER_HEIGHT = 0.3;
+const SCENE_DETAILS_HEIGHT = 1;
+const PAGE_NUMBER_WIDTH = 1;
+
+// Title slide and error text run across the middle of the slide; heights stay in inches as the font sizes are fixed
+const CENTRED_TEXT_MARGIN_SHARE = 0.1;
+const TITLE_HEIGHT = 1;
+const SUBTITLE_HEIGHT = 0.5;
+
+interface Box {
+	x: number;
+	y: number;
+	w: number;
+	h: number;
+}
+
+// Hidden text stays selectable and searchable; visible text covers the pixels so it can be edited
+export type TextLayerMode = "hidden" | "visible" | "none";
+
+function formatTimeRange({ startTime, endTime }: SlideAppearance): string {
+	return `${formatTime(Math.floor(startTime))} – ${formatTime(Math.floor(endTime))}`;
+}
+
+// Deck layout matching the typical aspect ratio of the (cropped) frames; 16:9 when there are none
+function chooseDeckLayout(frames: Array<{ width: number; height: number }>): DeckLayout {
+	if (frames.length === 0) return LAYOUT_16X9;
+
+	const aspects = frames.map((frame) => frame.width / frame.height).sort((a, b) => a - b);
+	const medianAspect = aspects[Math.floor(aspects.length / 2)];
+
+	const deviation = (layout: DeckLayout) => Math.abs(Math.log(medianAspect / (layout.width / layout.height)));
+	const closest = BUILT_IN_LAYOUTS.reduce((best, layout) => (deviation(layout) < deviation(best) ? layout : best));
+	if (deviation(closest) <= Math.log(1 + MAX_LAYOUT_ASPECT_DEVIATION)) return closest;
+
+	// Ultrawide captures, portrait phone recordings and the like
+	const aspect = Math.max(MIN_CUSTOM_ASPECT, Math.min(MAX_CUSTOM_ASPECT, medianAspect));
+	return aspect >= 1
+		? { name: CUSTOM_LAYOUT_NAME, width: CUSTOM_LAYOUT_LONG_SIDE, height: CUSTOM_LAYOUT_LONG_SIDE / aspect }
+		: { name: CUSTOM_LAYOUT_NAME, width: CUSTOM_LAYOUT_LONG_SIDE * aspect, height: CUSTOM_LAYOUT_LONG_SIDE };
+}
+
+function applyDeckLayout(pptx: PptxGenJS, layout: DeckLayout): void {
+	if (!BUILT_IN_LAYOUTS.includes(layout)) {
+		pptx.defineLayout({ name: layout.name, width: layout.width, height: layout.height });
+	}
+	pptx.layout = layout.name;
+}
+
+// Natural size of an image, or null if it cannot be loaded
+function loadImageSize(url: string): Promise<{ width: number; height: number } | null> {
+	return new Promise((resolve) => {
+		const image = new Image();
+		image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+		image.onerror = () => resolve(null);
+		image.src = url;
+	});
+}
+
+// How many of `maxCount` lines of `lineHeight` fit from `top` down to the bottom margin; fewer on short layouts
+function fitLineCount(layout: DeckLayout, top: number, lineHeight: number, maxCount: number): number {
+	return Math.max(1, Math.min(maxCount, Math.floor((layout.height - SCREENSHOT_MARGIN - top) / lineHeight)));
+}
+
+// Area between the title strip and the footer strip
+function getScreenshotBox(layout: DeckLayout): Box {
+	return {
+		x: SCREENSHOT_MARGIN,
+		y: SCREENSHOT_MARGIN,
+		w: layout.width - 2 * SCREENSHOT_MARGIN,
+		h: layout.height - 2 * SCREENSHOT_MARGIN,
+	};
+}
+
+// Top of a footer line, centred in the bottom margin
+function getFooterY(layout: DeckLayout): number {
+	return layout.height - (SCREENSHOT_MARGIN + FOOTER_HEIGHT) / 2;
+}
+
+// Full-width text line of height `h` centred on `centreY`, inset from the sides in proportion to the slide width
+function getCentredTextBox(layout: DeckLayout, centreY: number, h: number): Box {
+	const x = layout.width * CENTRED_TEXT_MARGIN_SHARE;
+	return { x, y: centreY - h / 2, w: layout.width - 2 * x, h };
+}
+
+function addTitleSlide(pptx: PptxGenJS, layout: DeckLayout, title: string, subtitle: string): void {
+	const titleSlide = pptx.addSlide();
+	const titleBox = getCentredTextBox(layout, layout.height / 3, TITLE_HEIGHT);
+	titleSlide.addText(title, {
+		...titleBox,
+		fontSize: 32,
+		fontFace: "Arial",
+		color: "363636",
+		align: "center",
+		bold: true,
+	});
+
+	titleSlide.addText(subtitle, {
+		...getCentredTextBox(layout, titleBox.y + titleBox.h + SUBTITLE_HEIGHT, SUBTITLE_HEIGHT),
+		fontSize: 16,
+		fontFace: "Arial",
+		color: "666666",
+		align: "center",
+	});
+}
+
+// Largest box with the image's aspect ratio that fits centred in `box`
+function fitImageInBox(box: Box, imageWidth: number, imageHeight: number): Box {
+	const scale = Math.min(box.w / imageWidth, box.h / imageHeight);
+	const w = imageWidth * scale;
+	const h = imageHeight * scale;
+
+	return { x: box.x + (box.w - w) / 2, y: box.y + (box.h - h) / 2, w, h };
+}
+
+// Lay recognized lines over the screenshot at the position they were found
+function addTextLayer(slide: PptxGenJS.Slide, textLayer: SlideTextLayer, mode: TextLayerMode, imageBox: Box): void {
+	for (const line of textLayer.lines) {
+		const h = line.box.height * imageBox.h;
+
+		slide.addText(line.text, {
+			x: imageBox.x + line.box.x * imageBox.w,
+			y: imageBox.y + line.box.y * imageBox.h,
+			w: line.box.width * imageBox.w,
+			h,
+			// Cap height is roughly three quarters of the font size
+			fontSize: Math.max(4, Math.round(h * 72 * 0.75)),
+			fontFace: "Arial",
+			color: "000000",
+			margin: 0,
+			valign: "middle",
+			wrap: false,
+			...(mode === "hidden" ? { transparency: 100 } : { fill: { color: "FFFFFF" } }),
+		});
+	}
+}
+
+// Media-fragment link to a position in the hosted recording, or null if the base URL is not usable
+function buildVideoLink(videoBaseUrl: string | undefined, seconds: number): string | null {
+	if (!videoBaseUrl) return null;
+
+	try {
+		const url = new URL(videoBaseUrl.trim());
+		if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+		url.hash = `t=${Math.floor(seconds)}`;
+		return url.toString();
+	} catch {
+		return null;
+	}
+}
+
+// Slide titles come from the recognized text when the slide went through OCR
+export function convertScreenshotsToSlideData(slides: CapturedSlide[]): PPTSlideData[] {
+	return slides.map((slide, index) => ({
+		image: slide.url,
+		title: deriveSlideTitle(slide.textLayer) ?? `Slide ${index + 1}`,
+		description: `Screenshot captured at ${formatTime(Math.floor(slide.startTime))}`,
+		startTime: slide.startTime,
+		endTime: slide.endTime,
+	}));
 }
 
 export async function createAndDownloadPPT(
-	screenshots: string[],
+	slides: CapturedSlide[],
 	options: {
 		title?: string;
 		maxSlides?: number;
 		sortByImportance?: boolean;
+		showTimestampFooter?: boolean;
+		includeIndexSlide?: boolean;
+		// Agenda of the recognized slide titles, only added when at least one title was recognized
+		includeAgendaSlide?: boolean;
+		// Where the recording is hosted; slides link to `<videoBaseUrl>#t=<seconds>`
+		videoBaseUrl?: string;
+		// Spoken text is split across slides by time and written into their speaker notes
+		transcript?: TranscriptSegment[];
+		// How OCR text of recognized slides is placed on them, hidden by default
+		textLayer?: TextLayerMode;
+		// Full-screen camera views are left out unless this is set
+		includeCameraFrames?: boolean;
+		// How tall slides stitched from a scrolling document are laid out, scaled onto one slide by default
+		scrollSlideLayout?: ScrollSlideLayout;
 	} = {}
 ): Promise<void> {
+	// Page images created for paginated scroll slides, released once the file is written
+	let pageSlides: CapturedSlide[] = [];
+
 	try {
 		// Dynamic import to avoid SSR issues
 		const PptxGenJS = (await import("pptxgenjs")).default;
 
-		if (screenshots.length === 0) {
+		const deckSlides = options.includeCameraFrames ? slides : slides.filter((slide) => slide.contentClass !== "camera");
+
+		if (deckSlides.length === 0) {
 			throw new Error("No screenshots available to create PPT");
 		}
 
@@ -30,72 +258,161 @@ export async function createAndDownloadPPT(
 		pptx.title = options.title || "Video Analysis Presentation";
 
 		const maxSlides = options.maxSlides || 256;
-		const slidesToProcess = screenshots.slice(0, maxSlides);
-
-		// Add title slide
-		const titleSlide = pptx.addSlide();
-		titleSlide.addText(options.title || "Video Analysis", {
-			x: 1,
-			y: 1,
-			w: 8,
-			h: 1,
-			fontSize: 32,
-			fontFace: "Arial",
-			color: "363636",
-			align: "center",
-			bold: true,
-		});
+		const layoutSlides = options.scrollSlideLayout === "paginate" ? await paginateScrollSlides(deckSlides) : deckSlides;
+		pageSlides = layoutSlides.filter((slide) => !deckSlides.includes(slide));
+		const slidesToProcess = layoutSlides.slice(0, maxSlides);
+		const slideData = convertScreenshotsToSlideData(slidesToProcess);
 
-		titleSlide.addText(`Generated on ${new Date().toLocaleDateString()}`, {
-			x: 1,
-			y: 6,
-			w: 8,
-			h: 0.5,
-			fontSize: 16,
-			fontFace: "Arial",
-			color: "666666",
-			align: "center",
+		// Letterbox bars are already trimmed, so the slide shape follows the content
+		const layout = chooseDeckLayout(slidesToProcess);
+		applyDeckLayout(pptx, layout);
+		const screenshotBox = getScreenshotBox(layout);
+		const footerY = getFooterY(layout);
+
+		pptx.defineSlideMaster({
+			title: CONTENT_MASTER,
+			objects: [
+				{
+					placeholder: {
+						options: {
+							name: "title",
+							type: "title",
+							x: SCREENSHOT_MARGIN,
+							y: 0,
+							w: layout.width - 2 * SCREENSHOT_MARGIN,
+							h: SCREENSHOT_MARGIN,
+							fontSize: 16,
+							fontFace: "Arial",
+							color: "363636",
+							bold: true,
+							valign: "middle",
+						},
+						text: "",
+					},
+				},
+			],
 		});
 
+		addTitleSlide(pptx, layout, options.title || "Video Analysis", `Generated on ${new Date().toLocaleDateString()}`);
+
+		// Add agenda slides listing the recognized titles, each linking to its slide
+		const agendaItemsPerSlide = fitLineCount(layout, AGENDA_Y, AGENDA_LINE_HEIGHT, AGENDA_ITEMS_PER_SLIDE);
+		const hasRecognizedTitles = slidesToProcess.some((slide) => deriveSlideTitle(slide.textLayer) !== null);
+		const agendaPageCount =
+			options.includeAgendaSlide !== false && hasRecognizedTitles
+				? Math.ceil(slideData.length / agendaItemsPerSlide)
+				: 0;
+		// Title slide and agenda pages come before the first screenshot slide
+		const firstScreenshotSlideNumber = 2 + agendaPageCount;
+
+		for (let page = 0; page < agendaPageCount; page++) {
+			const agendaSlide = pptx.addSlide({ masterName: CONTENT_MASTER });
+			agendaSlide.addText(agendaPageCount > 1 ? `Agenda (${page + 1}/${agendaPageCount})` : "Agenda", {
+				placeholder: "title",
+			});
+
+			const pageItems = slideData.slice(page * agendaItemsPerSlide, (page + 1) * agendaItemsPerSlide);
+			agendaSlide.addText(
+				pageItems.map((item, index) => {
+					const slideIndex = page * agendaItemsPerSlide + index;
+					return {
+						text: item.title || `Slide ${slideIndex + 1}`,
+						options: {
+							bullet: true,
+							breakLine: true,
+							hyperlink: { slide: firstScreenshotSlideNumber + slideIndex },
+						},
+					};
+				}),
+				{
+					x: SCREENSHOT_MARGIN,
+					y: AGENDA_Y,
+					w: layout.width - 2 * SCREENSHOT_MARGIN,
+					h: layout.height - SCREENSHOT_MARGIN - AGENDA_Y,
+					fontSize: 14,
+					fontFace: "Arial",
+					color: "363636",
+					valign: "top",
+				}
+			);
+		}
+
+		// Earliest slide in the video; with importance sorting it need not come first in the deck
+		const firstShownSlide = slidesToProcess.reduce((first, slide) =>
+			slide.startTime < first.startTime ? slide : first
+		);
+
 		// Add screenshot slides
 		for (let i = 0; i < slidesToProcess.length; i++) {
-			const slide = pptx.addSlide();
-			const screenshotUrl = slidesToProcess[i];
+			const slide = pptx.addSlide({ masterName: CONTENT_MASTER });
+			const screenshotUrl = slidesToProcess[i].url;
+			slide.addText(slideData[i].title || `Slide ${i + 1}`, { placeholder: "title" });
+			const timeRanges = slidesToProcess[i].appearances.map(formatTimeRange);
+			const videoLink = buildVideoLink(options.videoBaseUrl, slidesToProcess[i].startTime);
+
+			// Speaker notes carry the video position(s) so the deck can be used to navigate the recording
+			const notes = [`Video time: ${timeRanges.join(", ")}`];
+			if (videoLink) {
+				notes.push(`Watch: ${videoLink}`);
+			}
+
+			const spokenText = options.transcript
+				? getTranscriptForSlide(
+						options.transcript,
+						slidesToProcess[i].appearances,
+						slidesToProcess[i] === firstShownSlide
+					)
+				: "";
+			if (spokenText) {
+				notes.push("", spokenText);
+			}
+
+			slide.addNotes(notes.join("\n"));
 
 			try {
 				// Add the screenshot image
+				const imageBox = fitImageInBox(screenshotBox, slidesToProcess[i].width, slidesToProcess[i].height);
 				slide.addImage({
 					path: screenshotUrl,
-					x: 0.5,
-					y: 0.5,
-					w: 9,
-					h: 6.75,
-					sizing: {
-						type: "contain",
-						w: 9,
-						h: 6.75,
-					},
+					...imageBox,
+					...(videoLink && { hyperlink: { url: videoLink, tooltip: "Open the recording at this slide" } }),
 				});
 
+				const textLayer = slidesToProcess[i].textLayer;
+				const textLayerMode = options.textLayer ?? "hidden";
+				if (textLayer && textLayerMode !== "none") {
+					addTextLayer(slide, textLayer, textLayerMode, imageBox);
+				}
+
 				// Add slide number
 				slide.addText(`${i + 1} / ${slidesToProcess.length}`, {
-					x: 8.5,
-					y: 7,
-					w: 1,
-					h: 0.3,
+					x: layout.width - SCREENSHOT_MARGIN - PAGE_NUMBER_WIDTH,
+					y: footerY,
+					w: PAGE_NUMBER_WIDTH,
+					h: FOOTER_HEIGHT,
 					fontSize: 10,
 					fontFace: "Arial",
 					color: "999999",
 					align: "right",
 				});
+
+				if (options.showTimestampFooter) {
+					slide.addText(timeRanges.join(", "), {
+						x: SCREENSHOT_MARGIN,
+						y: footerY,
+						w: layout.width - 2 * SCREENSHOT_MARGIN - PAGE_NUMBER_WIDTH,
+						h: FOOTER_HEIGHT,
+						fontSize: 10,
+						fontFace: "Arial",
+						color: "999999",
+						align: "left",
+					});
+				}
 			} catch (error) {
 				console.error(`Error adding slide ${i + 1}:`, error);
 				// Add error slide instead
 				slide.addText(`Error loading slide ${i + 1}`, {
-					x: 1,
-					y: 3,
-					w: 8,
-					h: 1,
+					...getCentredTextBox(layout, layout.height / 2, TITLE_HEIGHT),
 					fontSize: 24,
 					fontFace: "Arial",
 					color: "FF0000",
@@ -104,6 +421,63 @@ export async function createAndDownloadPPT(
 			}
 		}
 
+		// Add index slides listing when each slide appears in the video
+		if (options.includeIndexSlide !== false) {
+			// The header row takes one line
+			const indexRowsPerSlide = Math.max(
+				1,
+				fitLineCount(layout, INDEX_TABLE_Y, INDEX_ROW_HEIGHT, INDEX_ROWS_PER_SLIDE + 1) - 1
+			);
+			const pageCount = Math.ceil(slidesToProcess.length / indexRowsPerSlide);
+
+			for (let page = 0; page < pageCount; page++) {
+				const indexSlide = pptx.addSlide();
+				const tableWidth = layout.width - 2 * SCREENSHOT_MARGIN;
+				const numberColumnWidth = tableWidth * INDEX_NUMBER_COLUMN_SHARE;
+				const indexPageSlides = slidesToProcess.slice(page * indexRowsPerSlide, (page + 1) * indexRowsPerSlide);
+
+				indexSlide.addText(pageCount > 1 ? `Slide Index (${page + 1} / ${pageCount})` : "Slide Index", {
+					x: SCREENSHOT_MARGIN,
+					y: INDEX_TITLE_Y,
+					w: layout.width - 2 * SCREENSHOT_MARGIN,
+					h: INDEX_TITLE_HEIGHT,
+					fontSize: 24,
+					fontFace: "Arial",
+					color: "363636",
+					bold: true,
+				});
+
+				indexSlide.addTable(
+					[
+						[
+							{ text: "Slide", options: { bold: true, color: "363636" } },
+							{ text: "Video Time", options: { bold: true, color: "363636" } },
+						],
+						...indexPageSlides.map((capturedSlide, index) => {
+							const videoLink = buildVideoLink(options.videoBaseUrl, capturedSlide.startTime);
+							return [
+								{ text: `${page * indexRowsPerSlide + index + 1}` },
+								{
+									text: capturedSlide.appearances.map(formatTimeRange).join(", "),
+									options: videoLink ? { hyperlink: { url: videoLink } } : {},
+								},
+							];
+						}),
+					],
+					{
+						x: SCREENSHOT_MARGIN,
+						y: INDEX_TABLE_Y,
+						w: tableWidth,
+						colW: [numberColumnWidth, tableWidth - numberColumnWidth],
+						fontSize: 12,
+						fontFace: "Arial",
+						color: "666666",
+						border: { type: "solid", pt: 0.5, color: "DDDDDD" },
+					}
+				);
+			}
+		}
+
 		// Generate filename with timestamp
 		const timestamp = generateTimestamp();
 		const fileName = `Video2PPT_${timestamp}.pptx`;
@@ -115,6 +489,8 @@ export async function createAndDownloadPPT(
 	} catch (error) {
 		console.error("Error creating PPT:", error);
 		throw error;
+	} finally {
+		revokeSlideUrls(pageSlides);
 	}
 }
 
@@ -141,58 +517,49 @@ export async function createPPTFromVideoAnalysis(
 		pptx.company = "Video2PPT";
 		pptx.title = options.title || "Smart Video Analysis";
 
-		// Add title slide
-		const titleSlide = pptx.addSlide();
-		titleSlide.addText(options.title || "Smart Video Analysis", {
-			x: 1,
-			y: 1,
-			w: 8,
-			h: 1,
-			fontSize: 32,
-			fontFace: "Arial",
-			color: "363636",
-			align: "center",
-			bold: true,
-		});
+		const useScenes = options.includeSceneBreaks && analysisResult.scenes.length > 0;
+		const imageUrls = useScenes ? analysisResult.scenes.map((scene) => scene.thumbnail) : analysisResult.keyFrames;
+		const imageSizes = await Promise.all(imageUrls.map(loadImageSize));
 
-		titleSlide.addText("Generated using WebAV + FFmpeg Technology", {
-			x: 1,
-			y: 2.5,
-			w: 8,
-			h: 0.5,
-			fontSize: 16,
-			fontFace: "Arial",
-			color: "666666",
-			align: "center",
-		});
+		const layout = chooseDeckLayout(imageSizes.filter((size) => size !== null));
+		applyDeckLayout(pptx, layout);
+		const screenshotBox = getScreenshotBox(layout);
+		const footerY = getFooterY(layout);
+
+		// Place an image at its own aspect ratio, or let PowerPoint fit it if its size is unknown
+		const addFittedImage = (slide: PptxGenJS.Slide, index: number, box: Box) => {
+			const size = imageSizes[index];
+			slide.addImage(
+				size
+					? { path: imageUrls[index], ...fitImageInBox(box, size.width, size.height) }
+					: { path: imageUrls[index], ...box, sizing: { type: "contain", w: box.w, h: box.h } }
+			);
+		};
+
+		addTitleSlide(pptx, layout, options.title || "Smart Video Analysis", "Generated using WebAV + FFmpeg Technology");
 
 		// Add scene-based slides
-		if (options.includeSceneBreaks && analysisResult.scenes.length > 0) {
+		if (useScenes) {
+			// Scene details take a line below the thumbnail
+			const sceneBox = { ...screenshotBox, h: screenshotBox.h - SCENE_DETAILS_HEIGHT };
+			const detailsHeight = SCENE_DETAILS_HEIGHT / 2;
+			const detailsY = sceneBox.y + sceneBox.h + (SCENE_DETAILS_HEIGHT - detailsHeight) / 2;
+			const halfWidth = screenshotBox.w / 2;
+
 			for (let i = 0; i < analysisResult.scenes.length; i++) {
 				const scene = analysisResult.scenes[i];
 				const slide = pptx.addSlide();
 
 				// Add scene thumbnail
-				slide.addImage({
-					path: scene.thumbnail,
-					x: 0.5,
-					y: 1,
-					w: 9,
-					h: 5,
-					sizing: {
-						type: "contain",
-						w: 9,
-						h: 5,
-					},
-				});
+				addFittedImage(slide, i, sceneBox);
 
 				// Add scene information
 				const duration = scene.endTime - scene.startTime;
 				slide.addText(`Scene ${i + 1}`, {
-					x: 0.5,
-					y: 6.5,
-					w: 4,
-					h: 0.5,
+					x: screenshotBox.x,
+					y: detailsY,
+					w: halfWidth,
+					h: detailsHeight,
 					fontSize: 18,
 					fontFace: "Arial",
 					color: "363636",
@@ -200,10 +567,10 @@ export async function createPPTFromVideoAnalysis(
 				});
 
 				slide.addText(`Duration: ${duration.toFixed(1)}s`, {
-					x: 5,
-					y: 6.5,
-					w: 4,
-					h: 0.5,
+					x: screenshotBox.x + halfWidth,
+					y: detailsY,
+					w: halfWidth,
+					h: detailsHeight,
 					fontSize: 14,
 					fontFace: "Arial",
 					color: "666666",
@@ -214,25 +581,14 @@ export async function createPPTFromVideoAnalysis(
 			for (let i = 0; i < analysisResult.keyFrames.length; i++) {
 				const slide = pptx.addSlide();
 
-				slide.addImage({
-					path: analysisResult.keyFrames[i],
-					x: 0.5,
-					y: 0.5,
-					w: 9,
-					h: 6.75,
-					sizing: {
-						type: "contain",
-						w: 9,
-						h: 6.75,
-					},
-				});
+				addFittedImage(slide, i, screenshotBox);
 
 				// Add slide number
 				slide.addText(`Key Frame ${i + 1}`, {
-					x: 0.5,
-					y: 7.25,
-					w: 9,
-					h: 0.25,
+					x: screenshotBox.x,
+					y: footerY,
+					w: screenshotBox.w,
+					h: FOOTER_HEIGHT,
 					fontSize: 12,
 					fontFace: "Arial",
 					color: "999999",
@@ -252,11 +608,3 @@ export async function createPPTFromVideoAnalysis(
 		throw error;
 	}
 }
-
-export function convertScreenshotsToSlideData(screenshots: string[]): PPTSlideData[] {
-	return screenshots.map((screenshot, index) => ({
-		image: screenshot,
-		title: `Slide ${index + 1}`,
-		description: `Screenshot captured at frame ${index + 1}`,
-	}));
-}
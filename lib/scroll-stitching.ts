@@ -0,0 +1,270 @@
+// Recognize a document being scrolled through and stitch its screenshots into one tall image
+
+import { canvasToBlob, createCapturedSlide, type CapturedSlide } from "./captured-slide";
+import { computeDHash } from "./slide-dedup";
+import type { SlideTextLayer } from "./slide-ocr";
+import { toLuminance } from "./utils";
+
+// Each frame row is reduced to this many luminance cells before rows are matched
+const FINGERPRINT_COLUMNS = 32;
+
+// Consecutive frames must still share this fraction of their height
+const MIN_SCROLL_OVERLAP = 0.2;
+// Smaller shifts are jitter or re-layout rather than scrolling
+const MIN_SCROLL_SHIFT = 0.02;
+// Mean luminance error per cell up to which shifted rows count as the same content
+const MAX_MATCH_ERROR = 6;
+// The matching shift must stand out; sparse slides on a plain background match everywhere a little
+const MATCH_CONTRAST = 3;
+
+// Canvases taller than this fail to allocate in some browsers
+const MAX_STITCHED_HEIGHT = 16384;
+
+// "fit" scales the whole stitched image onto one slide, "paginate" spreads it over one slide per screenful
+export type ScrollSlideLayout = "fit" | "paginate";
+
+interface FrameFingerprint {
+	height: number;
+	width: number;
+	// FINGERPRINT_COLUMNS luminance values per row
+	cells: Float32Array;
+}
+
+let fingerprintCanvas: HTMLCanvasElement | null = null;
+
+async function computeFingerprint(slide: CapturedSlide): Promise<FrameFingerprint> {
+	if (!fingerprintCanvas) {
+		fingerprintCanvas = document.createElement("canvas");
+	}
+
+	const context = fingerprintCanvas.getContext("2d", { willReadFrequently: true });
+	if (!context) throw new Error("Cannot get canvas context");
+
+	const bitmap = await createImageBitmap(slide.blob);
+	fingerprintCanvas.width = FINGERPRINT_COLUMNS;
+	fingerprintCanvas.height = bitmap.height;
+	context.drawImage(bitmap, 0, 0, FINGERPRINT_COLUMNS, bitmap.height);
+	const { width, height } = bitmap;
+	bitmap.close();
+
+	const cells = toLuminance(context.getImageData(0, 0, FINGERPRINT_COLUMNS, height));
+
+	return { width, height, cells };
+}
+
+// Mean error between the rows of `current` and the rows `shift` further down in `previous`
+function shiftError(previous: FrameFingerprint, current: FrameFingerprint, shift: number): number {
+	const overlapCells = (current.height - shift) * FINGERPRINT_COLUMNS;
+	const offset = shift * FINGERPRINT_COLUMNS;
+	let error = 0;
+
+	for (let i = 0; i < overlapCells; i++) {
+		error += Math.abs(previous.cells[i + offset] - current.cells[i]);
+	}
+
+	return error / overlapCells;
+}
+
+// How many pixels the content moved up from `previous` to `current`, or null if it did not scroll down
+function estimateScrollShift(previous: FrameFingerprint, current: FrameFingerprint): number | null {
+	if (previous.width !== current.width || previous.height !== current.height) return null;
+
+	const minShift = Math.max(1, Math.round(current.height * MIN_SCROLL_SHIFT));
+	const maxShift = Math.floor(current.height * (1 - MIN_SCROLL_OVERLAP));
+	if (maxShift <= minShift) return null;
+
+	const errors: number[] = [];
+	let bestShift = minShift;
+	let bestError = Infinity;
+
+	for (let shift = minShift; shift <= maxShift; shift++) {
+		const error = shiftError(previous, current, shift);
+		errors.push(error);
+		if (error < bestError) {
+			bestError = error;
+			bestShift = shift;
+		}
+	}
+
+	const typicalError = errors.sort((a, b) => a - b)[Math.floor(errors.length / 2)];
+	const unshiftedError = shiftError(previous, current, 0);
+
+	if (bestError > MAX_MATCH_ERROR) return null;
+	if (bestError * MATCH_CONTRAST > typicalError || bestError * MATCH_CONTRAST > unshiftedError) return null;
+
+	return bestShift;
+}
+
+async function stitchRun(run: CapturedSlide[], shifts: number[]): Promise<CapturedSlide | null> {
+	const first = run[0];
+	const last = run[run.length - 1];
+
+	const canvas = document.createElement("canvas");
+	canvas.width = first.width;
+	canvas.height = first.height + shifts.reduce((total, shift) => total + shift, 0);
+	const context = canvas.getContext("2d");
+	if (!context) return null;
+
+	// Later frames are drawn over the overlap, so the newest rendering of each line wins
+	let offset = 0;
+	for (let i = 0; i < run.length; i++) {
+		if (i > 0) offset += shifts[i - 1];
+		const bitmap = await createImageBitmap(run[i].blob);
+		context.drawImage(bitmap, 0, offset);
+		bitmap.close();
+	}
+
+	const blob = await canvasToBlob(canvas);
+	if (!blob) return null;
+
+	const stitched = createCapturedSlide({
+		blob,
+		source: first.source,
+		time: first.startTime,
+		score: first.score,
+		width: canvas.width,
+		height: canvas.height,
+		hash: computeDHash(canvas),
+		contentClass: first.contentClass,
+	});
+
+	return {
+		...stitched,
+		endTime: last.endTime,
+		appearances: [{ startTime: first.startTime, endTime: last.endTime }],
+		scroll: { frameCount: run.length, viewportHeight: first.height },
+	};
+}
+
+// Replace every run of consecutive slides that scroll down from one to the next with a single tall slide
+export async function stitchScrollingSlides(slides: CapturedSlide[]): Promise<CapturedSlide[]> {
+	if (slides.length < 2) return slides;
+
+	// Fingerprints are small; the full frames are only decoded again for runs that get stitched
+	const fingerprints: FrameFingerprint[] = [];
+	for (const slide of slides) {
+		fingerprints.push(await computeFingerprint(slide));
+	}
+
+	const result: CapturedSlide[] = [];
+	let run: CapturedSlide[] = [slides[0]];
+	let shifts: number[] = [];
+	let runHeight = slides[0].height;
+
+	const flushRun = async () => {
+		const stitched = run.length > 1 ? await stitchRun(run, shifts) : null;
+		if (stitched) {
+			run.forEach((slide) => URL.revokeObjectURL(slide.url));
+			result.push(stitched);
+		} else {
+			result.push(...run);
+		}
+	};
+
+	for (let i = 1; i < slides.length; i++) {
+		const shift = estimateScrollShift(fingerprints[i - 1], fingerprints[i]);
+
+		if (shift !== null && runHeight + shift <= MAX_STITCHED_HEIGHT) {
+			run.push(slides[i]);
+			shifts.push(shift);
+			runHeight += shift;
+		} else {
+			await flushRun();
+			run = [slides[i]];
+			shifts = [];
+			runHeight = slides[i].height;
+		}
+	}
+	await flushRun();
+
+	const stitchedCount = result.filter((slide) => slide.scroll).length;
+	if (stitchedCount > 0) {
+		console.log(
+			`Stitched ${slides.length - result.length + stitchedCount} scrolling frames into ${stitchedCount} images`
+		);
+	}
+
+	return result;
+}
+
+// OCR lines of a stitched slide that fall on the page starting at `top`, relative to that page
+function getPageTextLayer(
+	textLayer: SlideTextLayer,
+	slideHeight: number,
+	top: number,
+	pageHeight: number
+): SlideTextLayer {
+	const lines = textLayer.lines
+		.filter((line) => {
+			const center = (line.box.y + line.box.height / 2) * slideHeight;
+			return center >= top && center < top + pageHeight;
+		})
+		.map((line) => ({
+			...line,
+			box: {
+				...line.box,
+				y: (line.box.y * slideHeight - top) / pageHeight,
+				height: (line.box.height * slideHeight) / pageHeight,
+			},
+		}));
+
+	return { text: lines.map((line) => line.text).join("\n"), lines };
+}
+
+// One slide per screenful of a stitched slide; the last page is aligned to the bottom so every page is full
+async function paginateScrollSlide(slide: CapturedSlide): Promise<CapturedSlide[]> {
+	if (!slide.scroll || slide.scroll.viewportHeight >= slide.height) return [slide];
+
+	const pageHeight = slide.scroll.viewportHeight;
+	const pageCount = Math.ceil(slide.height / pageHeight);
+
+	const canvas = document.createElement("canvas");
+	canvas.width = slide.width;
+	canvas.height = pageHeight;
+	const context = canvas.getContext("2d");
+	if (!context) return [slide];
+
+	const bitmap = await createImageBitmap(slide.blob);
+	const pages: CapturedSlide[] = [];
+
+	try {
+		for (let page = 0; page < pageCount; page++) {
+			const top = Math.min(page * pageHeight, slide.height - pageHeight);
+			context.drawImage(bitmap, 0, top, slide.width, pageHeight, 0, 0, slide.width, pageHeight);
+
+			const blob = await canvasToBlob(canvas);
+			if (!blob) continue;
+
+			const pageSlide = createCapturedSlide({
+				blob,
+				source: slide.source,
+				time: slide.startTime,
+				score: slide.score,
+				width: slide.width,
+				height: pageHeight,
+				hash: computeDHash(canvas),
+				contentClass: slide.contentClass,
+			});
+
+			pages.push({
+				...pageSlide,
+				endTime: slide.endTime,
+				appearances: slide.appearances,
+				textLayer: slide.textLayer && getPageTextLayer(slide.textLayer, slide.height, top, pageHeight),
+			});
+		}
+	} finally {
+		bitmap.close();
+	}
+
+	return pages.length > 0 ? pages : [slide];
+}
+
+// Expand stitched slides into pages; the page slides own new object URLs the caller has to revoke
+export async function paginateScrollSlides(slides: CapturedSlide[]): Promise<CapturedSlide[]> {
+	const paginated: CapturedSlide[] = [];
+	for (const slide of slides) {
+		paginated.push(...(await paginateScrollSlide(slide)));
+	}
+	return paginated;
+}
@@ -0,0 +1,220 @@
+// Automatic slide-area detection for picture-in-picture (Zoom/Teams) recordings
+
+import { getFrameSize, type DecodedFrame } from "./frame-reader";
+import type { FrameRegion } from "./frame-region";
+import { luminanceAt, toLuminance } from "./utils";
+
+const GRID_WIDTH = 64;
+
+// Cells that change between most samples are webcam tiles or other live video
+const DYNAMIC_CHANGE_RATIO = 0.35;
+const CELL_CHANGE_THRESHOLD = 8;
+const CELL_DETAIL_THRESHOLD = 4;
+
+// Only suggest a crop that is meaningfully smaller than the frame but still the dominant area
+const MIN_REGION_AREA = 0.2;
+const MAX_REGION_AREA = 0.95;
+
+// Letterbox and pillarbox bars are found on a copy this wide
+const BORDER_SAMPLE_WIDTH = 640;
+// A bar row or column stays within this luminance of the frame edge, allowing a few noisy pixels
+const BORDER_TOLERANCE = 12;
+const BORDER_OUTLIER_RATIO = 0.02;
+// Thinner bars are encoder padding or overscan and not worth trimming
+const MIN_BORDER = 0.01;
+const MIN_CONTENT_AREA = 0.3;
+
+// Width of uniform bars on each side of a frame, as fractions of the frame size
+export interface FrameBorders {
+	top: number;
+	bottom: number;
+	left: number;
+	right: number;
+}
+
+export interface LuminanceGrid {
+	width: number;
+	height: number;
+	values: Float32Array;
+}
+
+// Downscale a full video frame into a coarse luminance grid for layout analysis
+export function sampleLuminanceGrid(
+	frame: DecodedFrame,
+	canvas: HTMLCanvasElement,
+	context: CanvasRenderingContext2D
+): LuminanceGrid {
+	const frameSize = getFrameSize(frame);
+	const width = GRID_WIDTH;
+	const height = Math.max(1, Math.round((GRID_WIDTH * frameSize.height) / frameSize.width));
+
+	canvas.width = width;
+	canvas.height = height;
+	context.drawImage(frame, 0, 0, width, height);
+	return { width, height, values: toLuminance(context.getImageData(0, 0, width, height)) };
+}
+
+// Largest axis-aligned rectangle of true cells (histogram-stack method)
+function findLargestRectangle(mask: boolean[], width: number, height: number) {
+	const heights = new Array<number>(width).fill(0);
+	let best = { x: 0, y: 0, width: 0, height: 0 };
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			heights[x] = mask[y * width + x] ? heights[x] + 1 : 0;
+		}
+
+		const stack: number[] = [];
+		for (let x = 0; x <= width; x++) {
+			const current = x < width ? heights[x] : 0;
+
+			while (stack.length > 0 && heights[stack[stack.length - 1]] >= current) {
+				const barHeight = heights[stack.pop()!];
+				const left = stack.length > 0 ? stack[stack.length - 1] + 1 : 0;
+				const barWidth = x - left;
+
+				if (barWidth * barHeight > best.width * best.height) {
+					best = { x: left, y: y - barHeight + 1, width: barWidth, height: barHeight };
+				}
+			}
+
+			stack.push(x);
+		}
+	}
+
+	return best;
+}
+
+// Locate the dominant stable rectangle (the shared screen) from grids sampled across the video
+export function detectSlideArea(grids: LuminanceGrid[]): FrameRegion | null {
+	if (grids.length < 4) return null;
+
+	const { width, height } = grids[0];
+	const cellCount = width * height;
+	const changeCounts = new Array<number>(cellCount).fill(0);
+	const detailSums = new Array<number>(cellCount).fill(0);
+
+	for (let t = 0; t < grids.length; t++) {
+		const { values } = grids[t];
+
+		for (let y = 0; y < height; y++) {
+			for (let x = 0; x < width; x++) {
+				const index = y * width + x;
+
+				if (t > 0 && Math.abs(values[index] - grids[t - 1].values[index]) > CELL_CHANGE_THRESHOLD) {
+					changeCounts[index]++;
+				}
+
+				const right = x < width - 1 ? Math.abs(values[index + 1] - values[index]) : 0;
+				const down = y < height - 1 ? Math.abs(values[index + width] - values[index]) : 0;
+				detailSums[index] += right + down;
+			}
+		}
+	}
+
+	const pairCount = grids.length - 1;
+	const isDynamic = (index: number) => changeCounts[index] / pairCount > DYNAMIC_CHANGE_RATIO;
+	const isActive = (index: number) =>
+		changeCounts[index] > 0 || detailSums[index] / grids.length > CELL_DETAIL_THRESHOLD;
+
+	// The shared screen is the largest area without live video in it
+	const stableMask = Array.from({ length: cellCount }, (_, index) => !isDynamic(index));
+	const rect = findLargestRectangle(stableMask, width, height);
+	if (rect.width === 0 || rect.height === 0) return null;
+
+	// Trim static, featureless borders (window chrome, letterbox, empty gallery background)
+	const rowActive = (y: number) => {
+		for (let x = rect.x; x < rect.x + rect.width; x++) if (isActive(y * width + x)) return true;
+		return false;
+	};
+	const columnActive = (x: number) => {
+		for (let y = rect.y; y < rect.y + rect.height; y++) if (isActive(y * width + x)) return true;
+		return false;
+	};
+
+	while (rect.height > 1 && !rowActive(rect.y)) {
+		rect.y++;
+		rect.height--;
+	}
+	while (rect.height > 1 && !rowActive(rect.y + rect.height - 1)) rect.height--;
+	while (rect.width > 1 && !columnActive(rect.x)) {
+		rect.x++;
+		rect.width--;
+	}
+	while (rect.width > 1 && !columnActive(rect.x + rect.width - 1)) rect.width--;
+
+	const area = (rect.width * rect.height) / cellCount;
+	if (area < MIN_REGION_AREA || area > MAX_REGION_AREA) return null;
+
+	return {
+		x: rect.x / width,
+		y: rect.y / height,
+		width: rect.width / width,
+		height: rect.height / height,
+	};
+}
+
+// Measure the uniform bars around a frame; null for a frame that is uniform all over (e.g. a fade to black)
+export function measureFrameBorders(
+	frame: DecodedFrame,
+	canvas: HTMLCanvasElement,
+	context: CanvasRenderingContext2D
+): FrameBorders | null {
+	const frameSize = getFrameSize(frame);
+	const width = Math.min(BORDER_SAMPLE_WIDTH, frameSize.width);
+	const height = Math.max(1, Math.round((width * frameSize.height) / frameSize.width));
+
+	canvas.width = width;
+	canvas.height = height;
+	context.drawImage(frame, 0, 0, width, height);
+	const { data } = context.getImageData(0, 0, width, height);
+	const luminance = (x: number, y: number) => luminanceAt(data, (y * width + x) * 4);
+
+	// Count the lines from one edge inward whose pixels all match the colour at that edge
+	const countUniformLines = (lineCount: number, lineLength: number, at: (line: number, offset: number) => number) => {
+		let reference = 0;
+		for (let offset = 0; offset < lineLength; offset++) reference += at(0, offset);
+		reference /= lineLength;
+
+		const maxOutliers = Math.floor(lineLength * BORDER_OUTLIER_RATIO);
+		for (let line = 0; line < lineCount; line++) {
+			let outliers = 0;
+			for (let offset = 0; offset < lineLength && outliers <= maxOutliers; offset++) {
+				if (Math.abs(at(line, offset) - reference) > BORDER_TOLERANCE) outliers++;
+			}
+			if (outliers > maxOutliers) return line;
+		}
+		return lineCount;
+	};
+
+	const top = countUniformLines(height, width, (line, offset) => luminance(offset, line));
+	if (top === height) return null;
+
+	const bottom = countUniformLines(height, width, (line, offset) => luminance(offset, height - 1 - line));
+	const left = countUniformLines(width, height, (line, offset) => luminance(line, offset));
+	const right = countUniformLines(width, height, (line, offset) => luminance(width - 1 - line, offset));
+
+	return { top: top / height, bottom: bottom / height, left: left / width, right: right / width };
+}
+
+// Area inside the letterbox or pillarbox bars that every sampled frame has, or null if there are none
+export function detectLetterbox(samples: FrameBorders[]): FrameRegion | null {
+	if (samples.length < 3) return null;
+
+	// A dark slide can blend into a black bar, so only what every sample agrees on is trimmed
+	const trim = (side: keyof FrameBorders) => {
+		const border = Math.min(...samples.map((sample) => sample[side]));
+		return border >= MIN_BORDER ? border : 0;
+	};
+
+	const top = trim("top");
+	const bottom = trim("bottom");
+	const left = trim("left");
+	const right = trim("right");
+	if (top + bottom + left + right === 0) return null;
+
+	const region = { x: left, y: top, width: 1 - left - right, height: 1 - top - bottom };
+	if (region.width * region.height < MIN_CONTENT_AREA) return null;
+
+	return region;
+}
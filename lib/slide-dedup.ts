@@ -0,0 +1,100 @@
+// Perceptual-hash based slide deduplication across the whole deck
+
+import type { CapturedSlide } from "./captured-slide";
+import { luminanceAt } from "./utils";
+
+export interface DeduplicationResult {
+	slides: CapturedSlide[];
+	duplicates: CapturedSlide[];
+}
+
+// Default Hamming-distance tolerance (out of 64 bits) for treating two slides as the same
+export const DEFAULT_HASH_DISTANCE = 5;
+export const HASH_DISTANCE_OPTIONS = [0, 3, 5, 8, 12];
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+let hashCanvas: HTMLCanvasElement | null = null;
+
+// Compute a 64-bit difference hash (dHash) of an image, returned as a 16-character hex string
+export function computeDHash(source: CanvasImageSource): string {
+	if (!hashCanvas) {
+		hashCanvas = document.createElement("canvas");
+		hashCanvas.width = HASH_WIDTH;
+		hashCanvas.height = HASH_HEIGHT;
+	}
+
+	const context = hashCanvas.getContext("2d", { willReadFrequently: true });
+	if (!context) throw new Error("Cannot get canvas context");
+
+	context.imageSmoothingEnabled = true;
+	context.imageSmoothingQuality = "high";
+	context.drawImage(source, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+	const { data } = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+	let hash = "";
+	let nibble = 0;
+	let bitCount = 0;
+
+	for (let y = 0; y < HASH_HEIGHT; y++) {
+		for (let x = 0; x < HASH_WIDTH - 1; x++) {
+			const left = (y * HASH_WIDTH + x) * 4;
+			const right = left + 4;
+			const leftLuminance = luminanceAt(data, left);
+			const rightLuminance = luminanceAt(data, right);
+
+			nibble = (nibble << 1) | (leftLuminance > rightLuminance ? 1 : 0);
+			bitCount++;
+
+			if (bitCount === 4) {
+				hash += nibble.toString(16);
+				nibble = 0;
+				bitCount = 0;
+			}
+		}
+	}
+
+	return hash;
+}
+
+// Number of differing bits between two hex-encoded hashes of equal length
+export function hammingDistance(hash1: string, hash2: string): number {
+	if (hash1.length !== hash2.length) {
+		throw new Error("Hashes must have the same length");
+	}
+
+	let distance = 0;
+	for (let i = 0; i < hash1.length; i++) {
+		let xor = parseInt(hash1[i], 16) ^ parseInt(hash2[i], 16);
+		while (xor) {
+			distance += xor & 1;
+			xor >>= 1;
+		}
+	}
+
+	return distance;
+}
+
+// Collapse revisited slides into their first occurrence, keeping every time range the slide appeared in
+export function deduplicateSlides(
+	slides: CapturedSlide[],
+	maxDistance: number = DEFAULT_HASH_DISTANCE
+): DeduplicationResult {
+	const uniqueSlides: CapturedSlide[] = [];
+	const duplicates: CapturedSlide[] = [];
+
+	for (const slide of slides) {
+		const matchIndex = uniqueSlides.findIndex((unique) => hammingDistance(unique.hash, slide.hash) <= maxDistance);
+
+		if (matchIndex >= 0) {
+			const match = uniqueSlides[matchIndex];
+			uniqueSlides[matchIndex] = { ...match, appearances: [...match.appearances, ...slide.appearances] };
+			duplicates.push(slide);
+		} else {
+			uniqueSlides.push({ ...slide, appearances: [...slide.appearances] });
+		}
+	}
+
+	return { slides: uniqueSlides, duplicates };
+}
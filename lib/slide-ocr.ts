@@ -0,0 +1,164 @@
+// OCR of captured slides with tesseract.js, using the worker, core and models bundled under public/
+
+import type { Worker as TesseractWorker } from "tesseract.js";
+
+import type { CapturedSlide } from "./captured-slide";
+import type { FrameRegion } from "./frame-region";
+
+export interface SlideTextLine {
+	text: string;
+	// Tesseract confidence, 0–100
+	confidence: number;
+	// Position on the slide image, normalized to 0–1
+	box: FrameRegion;
+}
+
+export interface SlideTextLayer {
+	// Recognized text in reading order, one line per line of the slide
+	text: string;
+	lines: SlideTextLine[];
+}
+
+// Served from public/tesseract so recognition works offline. The worker and core are copied there from
+// node_modules on install (scripts/copy-tesseract-assets.mjs); the models are committed.
+const OCR_WORKER_PATH = "/tesseract/worker.min.js";
+const OCR_CORE_PATH = "/tesseract/core";
+const OCR_LANG_PATH = "/tesseract/lang-data";
+const OCR_LANGUAGES = ["eng", "chi_sim"];
+
+// Lines below this confidence are mostly noise from photos, icons and video artifacts
+const MIN_LINE_CONFIDENCE = 50;
+
+// Titles are looked for in the upper part of the slide only
+const TITLE_REGION_HEIGHT = 0.4;
+const MAX_TITLE_LENGTH = 80;
+
+let ocrWorker: Promise<TesseractWorker> | null = null;
+
+function getOcrWorker(): Promise<TesseractWorker> {
+	if (typeof window === "undefined") {
+		throw new Error("OCR can only be performed on the client side");
+	}
+
+	if (!ocrWorker) {
+		ocrWorker = import("tesseract.js").then(({ createWorker }) =>
+			createWorker(OCR_LANGUAGES, undefined, {
+				workerPath: OCR_WORKER_PATH,
+				corePath: OCR_CORE_PATH,
+				langPath: OCR_LANG_PATH,
+				gzip: true,
+			})
+		);
+
+		// Allow a retry if the worker or the models failed to load
+		ocrWorker.catch(() => {
+			ocrWorker = null;
+		});
+	}
+
+	return ocrWorker;
+}
+
+// Tesseract separates every CJK character with a space, which breaks copy and search
+const CJK_SPACING = /(?<=[\u3000-\u303f\u4e00-\u9fff\uff00-\uffef])\s+(?=[\u3000-\u303f\u4e00-\u9fff\uff00-\uffef])/g;
+
+function joinCjkCharacters(text: string): string {
+	return text.replace(CJK_SPACING, "");
+}
+
+export async function recognizeSlideText(slide: CapturedSlide): Promise<SlideTextLayer> {
+	const worker = await getOcrWorker();
+	const { data } = await worker.recognize(slide.blob, {}, { text: true, blocks: true });
+
+	const lines: SlideTextLine[] = [];
+	for (const block of data.blocks ?? []) {
+		for (const paragraph of block.paragraphs) {
+			for (const line of paragraph.lines) {
+				const text = joinCjkCharacters(line.text.trim());
+				if (!text || line.confidence < MIN_LINE_CONFIDENCE) continue;
+
+				const { x0, y0, x1, y1 } = line.bbox;
+				lines.push({
+					text,
+					confidence: line.confidence,
+					box: {
+						x: x0 / slide.width,
+						y: y0 / slide.height,
+						width: (x1 - x0) / slide.width,
+						height: (y1 - y0) / slide.height,
+					},
+				});
+			}
+		}
+	}
+
+	return { text: lines.map((line) => line.text).join("\n"), lines };
+}
+
+// Attach a text layer to every slide; a slide that fails to recognize keeps an empty layer
+export async function recognizeSlides(
+	slides: CapturedSlide[],
+	onProgress?: (progress: number) => void
+): Promise<CapturedSlide[]> {
+	const recognized: CapturedSlide[] = [];
+
+	for (let i = 0; i < slides.length; i++) {
+		let textLayer: SlideTextLayer;
+		try {
+			textLayer = await recognizeSlideText(slides[i]);
+		} catch (error) {
+			console.warn(`OCR failed for slide ${i + 1}:`, error);
+			textLayer = { text: "", lines: [] };
+		}
+
+		recognized.push({ ...slides[i], textLayer });
+		onProgress?.(Math.round(((i + 1) / slides.length) * 100));
+	}
+
+	return recognized;
+}
+
+// Free the OCR worker and its models (tens of MB) once a deck is done
+export async function terminateOcr(): Promise<void> {
+	if (!ocrWorker) return;
+
+	const worker = ocrWorker;
+	ocrWorker = null;
+	await (await worker).terminate();
+}
+
+function isSameLineSize(a: SlideTextLine, b: SlideTextLine, tolerance: number): boolean {
+	return Math.abs(a.box.height - b.box.height) <= Math.max(a.box.height, b.box.height) * tolerance;
+}
+
+// Title of a slide: its largest line near the top (line height stands in for font size), the top-most on a tie
+export function deriveSlideTitle(textLayer: SlideTextLayer | null): string | null {
+	if (!textLayer) return null;
+
+	const candidates = textLayer.lines.filter(
+		(line) => line.box.y < TITLE_REGION_HEIGHT && line.text.replace(/\s/g, "").length >= 2
+	);
+	if (candidates.length === 0) return null;
+
+	const titleLine = candidates.reduce((best, line) => {
+		if (isSameLineSize(line, best, 0.1)) {
+			return line.box.y < best.box.y ? line : best;
+		}
+		return line.box.height > best.box.height ? line : best;
+	});
+
+	// A long title wraps onto a second line of the same size right below it
+	const titleBottom = titleLine.box.y + titleLine.box.height;
+	const continuation = candidates.find(
+		(line) =>
+			line !== titleLine &&
+			isSameLineSize(line, titleLine, 0.15) &&
+			line.box.y >= titleBottom - titleLine.box.height * 0.2 &&
+			line.box.y <= titleBottom + titleLine.box.height &&
+			line.box.x < titleLine.box.x + titleLine.box.width &&
+			line.box.x + line.box.width > titleLine.box.x
+	);
+
+	const title = joinCjkCharacters(continuation ? `${titleLine.text} ${continuation.text}` : titleLine.text);
+	return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+}
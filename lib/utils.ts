@@ -16,6 +16,11 @@ export function generateTimestamp(): string {
 	return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, "0")}-${now.getDate().toString().padStart(2, "0")}_${now.getHours().toString().padStart(2, "0")}${now.getMinutes().toString().padStart(2, "0")}`;
 }
 
+// Rec. 709 luminance of the RGBA pixel starting at `index`
+export function luminanceAt(data: Uint8ClampedArray, index: number): number {
+	return 0.2126 * data[index] + 0.7152 * data[index + 1] + 0.0722 * data[index + 2];
+}
+
 export function calculateImageDifference(imgData1: ImageData, imgData2: ImageData): number {
 	let sumOfSquares = 0;
 	const length = imgData1.data.length;
@@ -38,3 +43,215 @@ export function calculateImageDifference(imgData1: ImageData, imgData2: ImageDat
 	const avgSquareDiff = sumOfSquares / (length / 4);
 	return Math.sqrt(avgSquareDiff);
 }
+
+// Detect a progressive build step: the current frame only adds content on top of the previous one's background
+export function isProgressiveBuild(
+	previous: ImageData,
+	current: ImageData,
+	options: { pixelTolerance?: number; maxRemovedRatio?: number } = {}
+): boolean {
+	const { pixelTolerance = 24, maxRemovedRatio = 0.02 } = options;
+	const length = previous.data.length;
+	if (length !== current.data.length) return false;
+
+	// Estimate the slide background as the dominant luminance of the previous frame
+	const histogram = new Array<number>(32).fill(0);
+	for (let i = 0; i < length; i += 16) {
+		const luminance = luminanceAt(previous.data, i);
+		histogram[Math.min(31, Math.floor(luminance / 8))]++;
+	}
+	const backgroundLuminance = histogram.indexOf(Math.max(...histogram)) * 8 + 4;
+
+	let addedCount = 0;
+	let removedCount = 0;
+
+	for (let i = 0; i < length; i += 8) {
+		const luminance1 = luminanceAt(previous.data, i);
+		const luminance2 = luminanceAt(current.data, i);
+
+		if (Math.abs(luminance1 - luminance2) <= pixelTolerance) continue;
+
+		// Pixels that were background before count as added content, anything else was removed or modified
+		if (Math.abs(luminance1 - backgroundLuminance) <= pixelTolerance) {
+			addedCount++;
+		} else {
+			removedCount++;
+		}
+	}
+
+	const changedCount = addedCount + removedCount;
+	return changedCount > 0 && removedCount / changedCount <= maxRemovedRatio;
+}
+
+export type FrameComparatorId = "rms" | "ssim" | "histogram" | "edge";
+
+// Pluggable frame-difference metric; higher values mean more different frames
+export interface FrameComparator {
+	id: FrameComparatorId;
+	label: string;
+	description: string;
+	// Bounds for the dynamic threshold derived from the video, and the fallback when none can be derived
+	defaultThreshold: number;
+	minThreshold: number;
+	maxThreshold: number;
+	compare: (imgData1: ImageData, imgData2: ImageData) => number;
+}
+
+export function toLuminance(imageData: ImageData): Float32Array {
+	const { data } = imageData;
+	const luminance = new Float32Array(data.length / 4);
+	for (let i = 0; i < luminance.length; i++) {
+		luminance[i] = luminanceAt(data, i * 4);
+	}
+	return luminance;
+}
+
+// Structural dissimilarity, (1 - mean SSIM) * 100, over 8×8 luminance windows
+export function calculateSSIMDifference(imgData1: ImageData, imgData2: ImageData): number {
+	const { width, height } = imgData1;
+	const luminance1 = toLuminance(imgData1);
+	const luminance2 = toLuminance(imgData2);
+	const windowSize = 8;
+	const c1 = (0.01 * 255) ** 2;
+	const c2 = (0.03 * 255) ** 2;
+
+	let ssimSum = 0;
+	let windowCount = 0;
+
+	for (let y = 0; y + windowSize <= height; y += windowSize) {
+		for (let x = 0; x + windowSize <= width; x += windowSize) {
+			let sum1 = 0;
+			let sum2 = 0;
+			let sumSq1 = 0;
+			let sumSq2 = 0;
+			let sumProduct = 0;
+
+			for (let wy = 0; wy < windowSize; wy++) {
+				for (let wx = 0; wx < windowSize; wx++) {
+					const index = (y + wy) * width + x + wx;
+					const value1 = luminance1[index];
+					const value2 = luminance2[index];
+					sum1 += value1;
+					sum2 += value2;
+					sumSq1 += value1 * value1;
+					sumSq2 += value2 * value2;
+					sumProduct += value1 * value2;
+				}
+			}
+
+			const n = windowSize * windowSize;
+			const mean1 = sum1 / n;
+			const mean2 = sum2 / n;
+			const variance1 = sumSq1 / n - mean1 * mean1;
+			const variance2 = sumSq2 / n - mean2 * mean2;
+			const covariance = sumProduct / n - mean1 * mean2;
+
+			ssimSum +=
+				((2 * mean1 * mean2 + c1) * (2 * covariance + c2)) /
+				((mean1 * mean1 + mean2 * mean2 + c1) * (variance1 + variance2 + c2));
+			windowCount++;
+		}
+	}
+
+	if (windowCount === 0) return 0;
+	return (1 - ssimSum / windowCount) * 100;
+}
+
+// Total-variation distance (0-100) between 4×4×4-bin color histograms
+export function calculateHistogramDifference(imgData1: ImageData, imgData2: ImageData): number {
+	const buildHistogram = (imageData: ImageData) => {
+		const histogram = new Float32Array(64);
+		const { data } = imageData;
+		for (let i = 0; i < data.length; i += 4) {
+			histogram[((data[i] >> 6) << 4) | ((data[i + 1] >> 6) << 2) | (data[i + 2] >> 6)]++;
+		}
+		const pixelCount = data.length / 4;
+		return histogram.map((count) => count / pixelCount);
+	};
+
+	const histogram1 = buildHistogram(imgData1);
+	const histogram2 = buildHistogram(imgData2);
+
+	let distance = 0;
+	for (let i = 0; i < histogram1.length; i++) {
+		distance += Math.abs(histogram1[i] - histogram2[i]);
+	}
+
+	return (distance / 2) * 100;
+}
+
+// Share of edge pixels (0-100) present in only one of the two frames; sensitive to small text changes
+export function calculateEdgeDifference(imgData1: ImageData, imgData2: ImageData): number {
+	const { width, height } = imgData1;
+	const edgeThreshold = 40;
+
+	const buildEdgeMap = (imageData: ImageData) => {
+		const luminance = toLuminance(imageData);
+		const edges = new Uint8Array(width * height);
+		for (let y = 1; y < height - 1; y++) {
+			for (let x = 1; x < width - 1; x++) {
+				const index = y * width + x;
+				const gx = luminance[index + 1] - luminance[index - 1];
+				const gy = luminance[index + width] - luminance[index - width];
+				edges[index] = Math.abs(gx) + Math.abs(gy) > edgeThreshold ? 1 : 0;
+			}
+		}
+		return edges;
+	};
+
+	const edges1 = buildEdgeMap(imgData1);
+	const edges2 = buildEdgeMap(imgData2);
+
+	let union = 0;
+	let changed = 0;
+	for (let i = 0; i < edges1.length; i++) {
+		if (edges1[i] || edges2[i]) union++;
+		if (edges1[i] !== edges2[i]) changed++;
+	}
+
+	if (union === 0) return 0;
+	return (changed / union) * 100;
+}
+
+export const FRAME_COMPARATORS: Record<FrameComparatorId, FrameComparator> = {
+	rms: {
+		id: "rms",
+		label: "亮度差异",
+		description: "逐像素亮度均方根差，速度最快",
+		defaultThreshold: 30,
+		minThreshold: 10,
+		maxThreshold: 60,
+		compare: calculateImageDifference,
+	},
+	ssim: {
+		id: "ssim",
+		label: "结构相似度",
+		description: "SSIM，对压缩噪声不敏感",
+		defaultThreshold: 10,
+		minThreshold: 2,
+		maxThreshold: 30,
+		compare: calculateSSIMDifference,
+	},
+	histogram: {
+		id: "histogram",
+		label: "颜色直方图",
+		description: "颜色分布差异，忽略光标和小幅移动",
+		defaultThreshold: 5,
+		minThreshold: 1,
+		maxThreshold: 20,
+		compare: calculateHistogramDifference,
+	},
+	edge: {
+		id: "edge",
+		label: "边缘变化",
+		description: "边缘图差异，对小字变化敏感",
+		defaultThreshold: 20,
+		minThreshold: 5,
+		maxThreshold: 50,
+		compare: calculateEdgeDifference,
+	},
+};
+
+export function getFrameComparator(id: FrameComparatorId = "rms"): FrameComparator {
+	return FRAME_COMPARATORS[id] ?? FRAME_COMPARATORS.rms;
+}
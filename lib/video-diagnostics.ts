@@ -12,6 +12,8 @@ export interface VideoFormatInfo {
 export interface BrowserCapabilities {
 	hasSharedArrayBuffer: boolean;
 	hasWebAssembly: boolean;
+	// WebCodecs decoding, used for sequential frame extraction
+	hasWebCodecs: boolean;
 	isSecureContext: boolean;
 	userAgent: string;
 }
@@ -20,12 +22,14 @@ export interface BrowserCapabilities {
 export function checkBrowserCapabilities(): BrowserCapabilities {
 	const hasSharedArrayBuffer = typeof SharedArrayBuffer !== "undefined";
 	const hasWebAssembly = typeof WebAssembly !== "undefined";
+	const hasWebCodecs = typeof VideoDecoder !== "undefined" && typeof VideoFrame !== "undefined";
 	const isSecureContext = typeof window !== "undefined" ? window.isSecureContext : false;
 	const userAgent = typeof navigator !== "undefined" ? navigator.userAgent : "";
 
 	return {
 		hasSharedArrayBuffer,
 		hasWebAssembly,
+		hasWebCodecs,
 		isSecureContext,
 		userAgent,
 	};
@@ -175,6 +179,7 @@ export function generateDiagnosticReport(file: File): string {
 浏览器兼容性：
 - SharedArrayBuffer：${browserInfo.hasSharedArrayBuffer ? "支持" : "不支持"}
 - WebAssembly：${browserInfo.hasWebAssembly ? "支持" : "不支持"}
+- WebCodecs：${browserInfo.hasWebCodecs ? "支持" : "不支持"}
 - 安全上下文：${browserInfo.isSecureContext ? "是" : "否"}
 
 建议：
@@ -1,24 +1,348 @@
 import type { RefObject } from "react";
+import type { FFmpeg } from "@ffmpeg/ffmpeg";
+
+import { computeAudioPeaks, type TranscriptionBackend, type TranscriptSegment } from "./audio-transcription";
+import { canvasToBlob, createCapturedSlide, finalizeSlideTimings, type CapturedSlide } from "./captured-slide";
+import { medianOfFrames } from "./cursor-suppression";
+import { classifyFrameContent, isBlankFrame, measureFrameContent } from "./frame-classifier";
+import { getFrameDiffEngine } from "./frame-diff-engine";
+import { measureFrameQuality } from "./frame-quality";
+import { createFrameReader, getFrameSize, type DecodedFrame, type FrameReader } from "./frame-reader";
+import {
+	drawRegionFrame,
+	EMPTY_REGION_SETTINGS,
+	getCropRect,
+	intersectRegions,
+	type FrameRegion,
+	type PixelRect,
+	type RegionSettings,
+} from "./frame-region";
+import { createKeystoneFrameReader } from "./keystone";
+import { stitchScrollingSlides } from "./scroll-stitching";
+import {
+	detectLetterbox,
+	detectSlideArea,
+	measureFrameBorders,
+	sampleLuminanceGrid,
+	type FrameBorders,
+	type LuminanceGrid,
+} from "./slide-area";
+import { computeDHash } from "./slide-dedup";
+import { getFrameComparator, type FrameComparatorId } from "./utils";
+import { cleanWhiteboardBackground, measureInkCoverage } from "./whiteboard";
+
+const SCREEN_RECORDING_CHANNEL = "screen-recording";
+const EXTRACTION_CHANNEL = "extraction";
+const PREPROCESS_CHANNEL = "preprocess";
+const SETTLE_CHANNEL = "settle";
+const REFINE_CHANNEL = "refine";
+const QUALITY_CHANNEL = "quality";
+const CURSOR_CHANNEL = "cursor";
+
+// Slide changes found between two samples are bisected down to this many seconds
+const CHANGE_TIME_PRECISION = 0.25;
+
+// How long the picture must stay unchanged after a change before it is captured, in seconds
+export const DEFAULT_SETTLE_DURATION = 1;
+export const SETTLE_DURATION_OPTIONS = [0, 0.5, 1, 2, 3];
+
+// Look-ahead step and limit while waiting for a transition to finish
+const SETTLE_STEP = 0.25;
+const MAX_SETTLE_LOOKAHEAD = 6;
+
+// Frames closer than this fraction of the change threshold count as unchanged while settling
+const SETTLE_TOLERANCE = 0.25;
+
+// Frames scored per slide when looking for the sharpest one, and their spacing in seconds
+export const DEFAULT_SHARPNESS_CANDIDATES = 5;
+const SHARPNESS_CANDIDATE_STEP = 0.4;
+
+// Frames combined to paint out a moving cursor, and their spacing in seconds
+const CURSOR_FRAMES = 5;
+const CURSOR_FRAME_STEP = 0.5;
+
+// A board counts as erased once its ink coverage drops by this fraction from its peak
+const WHITEBOARD_ERASE_RATIO = 0.5;
+// Boards with less ink coverage than this are empty and not captured
+const MIN_WHITEBOARD_INK = 0.002;
+
+// Frames of a projector screen filmed at an angle are rectified before anything else looks at them.
+// The region selector clears the crop and exclusions when a keystone is marked, as they are drawn on the raw video.
+async function openFrameReader(
+	video: HTMLVideoElement,
+	file: Blob | undefined,
+	region: RegionSettings | undefined
+): Promise<{ reader: FrameReader; region: RegionSettings | undefined }> {
+	const reader = await createFrameReader(video, file);
+	if (!region?.keystone) return { reader, region };
+
+	return { reader: createKeystoneFrameReader(reader, region.keystone), region: undefined };
+}
+
+// Bisect between an unchanged and a changed sample to find when the picture changed, leaving the video seeked anywhere
+async function refineChangeTime(
+	reader: FrameReader,
+	unchangedTime: number,
+	changedTime: number,
+	options: {
+		differenceThreshold: number;
+		region?: RegionSettings;
+		comparator?: FrameComparatorId;
+		suppressCursor?: boolean;
+	}
+): Promise<number> {
+	const { differenceThreshold, region, comparator, suppressCursor } = options;
+	const engine = getFrameDiffEngine();
+
+	// Every probe is compared to the last unchanged sample
+	engine.reset(REFINE_CHANNEL);
+	const reference = await reader.seek(unchangedTime);
+	if (!reference) return changedTime;
+	await engine.compare(REFINE_CHANNEL, reference, { region, comparator, suppressCursor });
+
+	let low = unchangedTime;
+	let high = changedTime;
+
+	while (high - low > CHANGE_TIME_PRECISION) {
+		const middle = (low + high) / 2;
+		const frame = await reader.seek(middle);
+		if (!frame) break;
+
+		const { difference } = await engine.compare(REFINE_CHANNEL, frame, {
+			region,
+			comparator,
+			suppressCursor,
+			keepReference: true,
+		});
+		if (difference !== null && difference > differenceThreshold) {
+			high = middle;
+		} else {
+			low = middle;
+		}
+	}
+
+	return high;
+}
+
+// Step forward from a detected change until the picture has been stable for `settleDuration`, returning that time
+async function waitUntilSettled(
+	reader: FrameReader,
+	startTime: number,
+	options: {
+		settleDuration: number;
+		differenceThreshold: number;
+		region?: RegionSettings;
+		comparator?: FrameComparatorId;
+		suppressCursor?: boolean;
+	}
+): Promise<number> {
+	const { settleDuration, differenceThreshold, region, comparator, suppressCursor } = options;
+	const engine = getFrameDiffEngine();
+
+	// The reader is still at the change, which becomes the first look-ahead reference
+	engine.reset(SETTLE_CHANNEL);
+	if (!reader.frame) return startTime;
+	await engine.compare(SETTLE_CHANNEL, reader.frame, { region, comparator, suppressCursor });
+
+	const limit = Math.min(reader.duration, startTime + Math.max(MAX_SETTLE_LOOKAHEAD, settleDuration * 2));
+	let time = startTime;
+	let stableFor = 0;
+
+	while (stableFor < settleDuration && time + SETTLE_STEP <= limit) {
+		const frame = await reader.seek(time + SETTLE_STEP);
+		if (!frame) break;
+		time += SETTLE_STEP;
+
+		const { difference } = await engine.compare(SETTLE_CHANNEL, frame, { region, comparator, suppressCursor });
+		stableFor =
+			difference !== null && difference <= differenceThreshold * SETTLE_TOLERANCE ? stableFor + SETTLE_STEP : 0;
+	}
+
+	return time;
+}
+
+// Score frames from `startTime` on while they still show the same slide; returns the time of the crispest one
+async function findSharpestFrameTime(
+	reader: FrameReader,
+	startTime: number,
+	options: {
+		candidates: number;
+		cropRect: PixelRect;
+		differenceThreshold: number;
+		region?: RegionSettings;
+		comparator?: FrameComparatorId;
+		suppressCursor?: boolean;
+	}
+): Promise<number> {
+	const { candidates, cropRect, differenceThreshold, region, comparator, suppressCursor } = options;
+	const engine = getFrameDiffEngine();
+
+	// The reader is still at `startTime`; every candidate is compared to it to stay within the slide
+	engine.reset(QUALITY_CHANNEL);
+	if (!reader.frame) return startTime;
+	await engine.compare(QUALITY_CHANNEL, reader.frame, { region, comparator, suppressCursor });
+
+	let bestTime = startTime;
+	let bestQuality = measureFrameQuality(reader.frame, cropRect);
+
+	for (let i = 1; i < candidates; i++) {
+		const time = startTime + i * SHARPNESS_CANDIDATE_STEP;
+		if (time > reader.duration) break;
+
+		const frame = await reader.seek(time);
+		if (!frame) break;
+
+		const { difference } = await engine.compare(QUALITY_CHANNEL, frame, {
+			region,
+			comparator,
+			suppressCursor,
+			keepReference: true,
+		});
+		if (difference !== null && difference > differenceThreshold) break;
+
+		const quality = measureFrameQuality(frame, cropRect);
+		if (quality > bestQuality) {
+			bestQuality = quality;
+			bestTime = time;
+		}
+	}
+
+	return bestTime;
+}
+
+// Replace the canvas with the per-pixel median of frames from `startTime` on that still show the same slide;
+// a cursor that moves in between is painted out, one that stays put is left as is
+async function paintOutCursor(
+	reader: FrameReader,
+	startTime: number,
+	canvas: HTMLCanvasElement,
+	context: CanvasRenderingContext2D,
+	options: {
+		cropRect: PixelRect;
+		differenceThreshold: number;
+		region?: RegionSettings;
+		comparator?: FrameComparatorId;
+	}
+): Promise<void> {
+	const { cropRect, differenceThreshold, region, comparator } = options;
+	const engine = getFrameDiffEngine();
+
+	// The reader is still at `startTime`, whose frame is already on the canvas
+	engine.reset(CURSOR_CHANNEL);
+	if (!reader.frame) return;
+	await engine.compare(CURSOR_CHANNEL, reader.frame, { region, comparator, suppressCursor: true });
+
+	const frames = [context.getImageData(0, 0, canvas.width, canvas.height)];
+
+	for (let i = 1; i < CURSOR_FRAMES; i++) {
+		const time = startTime + i * CURSOR_FRAME_STEP;
+		if (time > reader.duration) break;
 
-import { calculateImageDifference } from "./utils";
+		const frame = await reader.seek(time);
+		if (!frame) break;
+
+		const { difference } = await engine.compare(CURSOR_CHANNEL, frame, {
+			region,
+			comparator,
+			suppressCursor: true,
+			keepReference: true,
+		});
+		if (difference !== null && difference > differenceThreshold) break;
+
+		drawRegionFrame(frame, canvas, context, cropRect);
+		frames.push(context.getImageData(0, 0, canvas.width, canvas.height));
+	}
+
+	// A median of two frames cannot tell the cursor from the slide
+	context.putImageData(frames.length >= 3 ? medianOfFrames(frames) : frames[0], 0, 0);
+}
 
 interface CaptureScreenshotParams {
 	videoRef: RefObject<HTMLVideoElement>;
 	canvasRef: RefObject<HTMLCanvasElement>;
-	lastImageDataRef: RefObject<ImageData | null>;
+	// Seconds since the recording started, used as the slide's start time
+	currentTime: number;
 	diffThreshold: number;
-	onScreenshotCaptured: (screenshot: string) => void;
+	comparator?: FrameComparatorId;
+	mergeProgressiveBuilds?: boolean;
+	// Seconds the screen must stay unchanged after a change before it is captured, 0 to capture right away
+	settleDuration?: number;
+	// Ignore a moving mouse cursor or laser pointer when comparing frames
+	suppressCursor?: boolean;
+	onScreenshotCaptured: (slide: CapturedSlide) => void;
+	onScreenshotReplaced?: (slide: CapturedSlide) => void;
+	// A changed frame was discarded because it is blank (black, white or a single colour)
+	onBlankFrameDropped?: () => void;
 	onStatsUpdate: () => void;
 }
 
-export function captureAndFilterScreenshot({
+type ScreenshotCallbacks = Pick<
+	CaptureScreenshotParams,
+	"onScreenshotCaptured" | "onScreenshotReplaced" | "onBlankFrameDropped"
+>;
+
+// A change seen on screen that is waiting for the picture to settle before it is captured
+interface PendingScreenChange {
+	detectedAt: number;
+	score: number;
+	progressiveBuild: boolean;
+	lastCheckedAt: number;
+	stableSince: number | null;
+}
+
+let pendingScreenChange: PendingScreenChange | null = null;
+
+// Turn the picture on the canvas into a slide, unless it is blank
+async function emitScreenshot(
+	canvas: HTMLCanvasElement,
+	captureTime: number,
+	score: number | null,
+	replacesPrevious: boolean,
+	{ onScreenshotCaptured, onScreenshotReplaced, onBlankFrameDropped }: ScreenshotCallbacks
+): Promise<void> {
+	const contentStats = measureFrameContent(canvas, canvas.width, canvas.height);
+	if (isBlankFrame(contentStats)) {
+		onBlankFrameDropped?.();
+		return;
+	}
+
+	const hash = computeDHash(canvas);
+	const blob = await canvasToBlob(canvas);
+	if (!blob) return;
+
+	const slide = createCapturedSlide({
+		blob,
+		source: "screen-recording",
+		time: captureTime,
+		score,
+		width: canvas.width,
+		height: canvas.height,
+		hash,
+		contentClass: classifyFrameContent(contentStats),
+	});
+
+	// A bullet point revealed on the same slide replaces the previous build step
+	if (replacesPrevious && onScreenshotReplaced) {
+		onScreenshotReplaced(slide);
+	} else {
+		onScreenshotCaptured(slide);
+	}
+}
+
+export async function captureAndFilterScreenshot({
 	videoRef,
 	canvasRef,
-	lastImageDataRef,
+	currentTime,
 	diffThreshold,
+	comparator,
+	mergeProgressiveBuilds = false,
+	settleDuration = DEFAULT_SETTLE_DURATION,
+	suppressCursor = false,
 	onScreenshotCaptured,
+	onScreenshotReplaced,
+	onBlankFrameDropped,
 	onStatsUpdate,
-}: CaptureScreenshotParams): void {
+}: CaptureScreenshotParams): Promise<void> {
 	const video = videoRef.current;
 	const canvas = canvasRef.current;
 
@@ -33,42 +357,84 @@ export function captureAndFilterScreenshot({
 
 	// Draw current video frame to canvas
 	context.drawImage(video, 0, 0, canvas.width, canvas.height);
-	const currentImageData = context.getImageData(0, 0, canvas.width, canvas.height);
+
+	// Diff against the previous frame in the shared engine (off the main thread where supported)
+	const { difference, progressiveBuild } = await getFrameDiffEngine().compare(SCREEN_RECORDING_CHANNEL, video, {
+		comparator,
+		suppressCursor,
+		detectProgressiveBuild: mergeProgressiveBuilds && onScreenshotReplaced !== undefined,
+	});
 
 	onStatsUpdate();
 
-	// Check if this is a significantly different frame
-	if (lastImageDataRef.current) {
-		const difference = calculateImageDifference(lastImageDataRef.current, currentImageData);
-
-		if (difference > diffThreshold) {
-			// Convert canvas to blob and create URL
-			canvas.toBlob(
-				(blob) => {
-					if (blob) {
-						const screenshotUrl = URL.createObjectURL(blob);
-						onScreenshotCaptured(screenshotUrl);
-					}
-				},
-				"image/jpeg",
-				0.8
-			);
-		}
-	} else {
-		// First frame - always capture
-		canvas.toBlob(
-			(blob) => {
-				if (blob) {
-					const screenshotUrl = URL.createObjectURL(blob);
-					onScreenshotCaptured(screenshotUrl);
-				}
-			},
-			"image/jpeg",
-			0.8
-		);
+	let captureTime = currentTime;
+	let score = difference;
+	let replacesPrevious = progressiveBuild;
+
+	if (difference !== null && difference > diffThreshold && settleDuration > 0) {
+		// Still changing: wait for the transition (or the next slide flip) to finish
+		pendingScreenChange = {
+			detectedAt: currentTime,
+			score: difference,
+			progressiveBuild,
+			lastCheckedAt: currentTime,
+			stableSince: null,
+		};
+		return;
 	}
 
-	lastImageDataRef.current = currentImageData;
+	if (pendingScreenChange) {
+		const pending = pendingScreenChange;
+		const isStable = difference !== null && difference <= diffThreshold * SETTLE_TOLERANCE;
+		pending.stableSince = isStable ? (pending.stableSince ?? pending.lastCheckedAt) : null;
+		pending.lastCheckedAt = currentTime;
+
+		if (pending.stableSince === null || currentTime - pending.stableSince < settleDuration) return;
+
+		// Capture the settled picture, dated to when the change started
+		pendingScreenChange = null;
+		captureTime = pending.detectedAt;
+		score = pending.score;
+		replacesPrevious = pending.progressiveBuild;
+	} else if (difference !== null && difference <= diffThreshold) {
+		// Check if this is a significantly different frame (the first frame is always captured)
+		return;
+	}
+
+	await emitScreenshot(canvas, captureTime, score, replacesPrevious, {
+		onScreenshotCaptured,
+		onScreenshotReplaced,
+		onBlankFrameDropped,
+	});
+}
+
+// Capture a change that is still waiting to settle, so the last slide is not lost when the recording stops
+export async function flushPendingScreenshot({
+	videoRef,
+	canvasRef,
+	...callbacks
+}: Pick<CaptureScreenshotParams, "videoRef" | "canvasRef"> & ScreenshotCallbacks): Promise<void> {
+	const pending = pendingScreenChange;
+	pendingScreenChange = null;
+
+	const video = videoRef.current;
+	const canvas = canvasRef.current;
+	if (!pending || !video || !canvas || video.videoWidth === 0) return;
+
+	const context = canvas.getContext("2d");
+	if (!context) return;
+
+	canvas.width = video.videoWidth;
+	canvas.height = video.videoHeight;
+	context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+	await emitScreenshot(canvas, pending.detectedAt, pending.score, pending.progressiveBuild, callbacks);
+}
+
+// Forget the last compared frame so the next screenshot starts a new recording
+export function resetScreenshotComparison(): void {
+	getFrameDiffEngine().reset(SCREEN_RECORDING_CHANNEL);
+	pendingScreenChange = null;
 }
 
 export function updateCanvasWithScreenshot(canvasRef: RefObject<HTMLCanvasElement>, screenshotUrl: string): void {
@@ -87,6 +453,92 @@ export function updateCanvasWithScreenshot(canvasRef: RefObject<HTMLCanvasElemen
 	img.src = screenshotUrl;
 }
 
+// One slide per board: follow the ink coverage and capture the fullest frame before each large erase and at the end
+async function extractWhiteboardSlides(
+	reader: FrameReader,
+	canvas: HTMLCanvasElement,
+	context: CanvasRenderingContext2D,
+	cropRect: PixelRect,
+	options: {
+		captureInterval: number;
+		maxScreenshots: number;
+		cleanBackground: boolean;
+	},
+	callbacks: {
+		onProgress: (progress: number) => void;
+		onFrameCaptured: (slide: CapturedSlide) => void;
+	}
+): Promise<CapturedSlide[]> {
+	const { captureInterval, maxScreenshots, cleanBackground } = options;
+	const boards: CapturedSlide[] = [];
+
+	let boardStart = 0;
+	let peakInk = 0;
+	let peakTime: number | null = null;
+	// Set after an erase until ink starts accumulating again
+	let erasing = false;
+
+	const captureBoard = async (): Promise<void> => {
+		if (peakTime === null || peakInk < MIN_WHITEBOARD_INK) return;
+
+		const frame = await reader.seek(peakTime);
+		if (!frame) return;
+
+		drawRegionFrame(frame, canvas, context, cropRect);
+		if (cleanBackground) {
+			cleanWhiteboardBackground(canvas, context);
+		}
+
+		const blob = await canvasToBlob(canvas);
+		if (!blob) return;
+
+		const slide = createCapturedSlide({
+			blob,
+			source: "local-video",
+			time: boardStart,
+			score: peakInk,
+			width: canvas.width,
+			height: canvas.height,
+			hash: computeDHash(canvas),
+		});
+		boards.push(slide);
+		callbacks.onFrameCaptured(slide);
+	};
+
+	for (let time = 0; time <= reader.duration && boards.length < maxScreenshots; time += captureInterval) {
+		const frame = await reader.seek(time);
+		if (frame) {
+			const ink = measureInkCoverage(frame, cropRect);
+
+			if (erasing && ink <= peakInk) {
+				// Wiping takes a few samples; follow the ink down so the half-erased board is not captured again
+				peakInk = ink;
+				peakTime = time;
+			} else if (ink < peakInk * (1 - WHITEBOARD_ERASE_RATIO)) {
+				await captureBoard();
+				boardStart = time;
+				peakInk = ink;
+				peakTime = time;
+				erasing = true;
+			} else {
+				erasing = false;
+				if (ink >= peakInk) {
+					peakInk = ink;
+					peakTime = time;
+				}
+			}
+		}
+
+		callbacks.onProgress(Math.round((time / reader.duration) * 100));
+	}
+
+	if (boards.length < maxScreenshots) {
+		await captureBoard();
+	}
+
+	return boards;
+}
+
 // WebAV-based video processing functions
 export async function processVideoWithWebAV(videoFile: File): Promise<{
 	frames: string[];
@@ -180,92 +632,248 @@ export async function extractFramesFromVideo(
 		captureInterval: number;
 		differenceThreshold: number;
 		maxScreenshots: number;
+		mergeProgressiveBuilds?: boolean;
+		region?: RegionSettings;
+		comparator?: FrameComparatorId;
+		// Seconds the picture must stay unchanged after a change before it is captured, 0 to disable
+		settleDuration?: number;
+		// Bisect between samples to date each change to sub-second accuracy
+		refineChangeTimes?: boolean;
+		// Score a few frames of each slide and export the crispest instead of the first
+		selectSharpestFrame?: boolean;
+		// Ignore a moving cursor when comparing frames, and paint it out of exported slides using the following frames
+		suppressCursor?: boolean;
+		// Stitch the screenshots of a document scrolled through on screen into one tall slide
+		stitchScrolling?: boolean;
+		// Capture one slide per whiteboard: the fullest frame before each large erase and at the end
+		whiteboardMode?: boolean;
+		// Turn the board background pure white in whiteboard mode
+		cleanWhiteboard?: boolean;
+		// The video's file; lets supporting browsers decode sequentially with WebCodecs instead of seeking `video`
+		file?: Blob;
 	},
 	callbacks: {
 		onProgress: (progress: number) => void;
-		onFrameCaptured: (blob: Blob, url: string) => void;
-		onComplete: (screenshots: Blob[]) => void;
+		onFrameCaptured: (slide: CapturedSlide) => void;
+		// The replacement keeps the start time of the build step it replaces
+		onFrameReplaced?: (slide: CapturedSlide) => void;
+		// Also reports the timestamps that were skipped because the video could not be seeked there,
+		// and how many changed frames were dropped as blank
+		onComplete: (slides: CapturedSlide[], skippedTimes: number[], blankFrameCount: number) => void;
 	}
 ): Promise<void> {
-	const { captureInterval, differenceThreshold, maxScreenshots } = options;
-	const { onProgress, onFrameCaptured, onComplete } = callbacks;
+	const {
+		captureInterval,
+		differenceThreshold,
+		maxScreenshots,
+		mergeProgressiveBuilds = false,
+		comparator,
+		settleDuration = DEFAULT_SETTLE_DURATION,
+		refineChangeTimes = true,
+		selectSharpestFrame = false,
+		suppressCursor = false,
+		stitchScrolling = false,
+		whiteboardMode = false,
+		cleanWhiteboard = false,
+		file,
+	} = options;
+	const { onProgress, onFrameCaptured, onFrameReplaced, onComplete } = callbacks;
 
 	const context = canvas.getContext("2d");
 	if (!context) return;
 
-	// Set canvas dimensions
-	canvas.width = video.videoWidth;
-	canvas.height = video.videoHeight;
+	const { reader, region } = await openFrameReader(video, file, options.region);
+
+	// Set canvas dimensions to the region of interest so exported slides are cropped too
+	const cropRect = getCropRect(region, reader.width, reader.height);
+	canvas.width = cropRect.width;
+	canvas.height = cropRect.height;
+
+	const engine = getFrameDiffEngine();
+	engine.reset(EXTRACTION_CHANNEL);
 
 	let currentTime = 0;
-	const totalDuration = video.duration;
-	let previousImageData: ImageData | null = null;
-	const screenshots: Blob[] = [];
+	const totalDuration = reader.duration;
+	const screenshots: CapturedSlide[] = [];
 	let noNewScreenshotCount = 0;
+	let blankFrameCount = 0;
+	// Time of the frame the next sample is compared to
+	let referenceTime: number | null = null;
 
 	const captureFrame = async (time: number): Promise<void> => {
-		return new Promise((resolve) => {
-			video.currentTime = time;
+		const sampledFrame = await reader.seek(time);
+		if (!sampledFrame) return;
 
-			video.onseeked = () => {
-				// Draw current frame
-				context.drawImage(video, 0, 0, canvas.width, canvas.height);
-				const currentImageData = context.getImageData(0, 0, canvas.width, canvas.height);
+		const unchangedTime = referenceTime;
+		referenceTime = time;
 
-				let shouldCapture = false;
+		const { difference, progressiveBuild } = await engine.compare(EXTRACTION_CHANNEL, sampledFrame, {
+			region,
+			comparator,
+			suppressCursor,
+			detectProgressiveBuild: mergeProgressiveBuilds && onFrameReplaced !== undefined,
+		});
 
-				if (previousImageData) {
-					const difference = calculateImageDifference(previousImageData, currentImageData);
-					shouldCapture = difference > differenceThreshold;
+		let shouldCapture = false;
+		let replacesPrevious = false;
 
-					if (!shouldCapture) {
-						noNewScreenshotCount++;
-					} else {
-						noNewScreenshotCount = 0;
-					}
-				} else {
-					shouldCapture = true; // First frame
-				}
+		if (difference !== null) {
+			shouldCapture = difference > differenceThreshold;
 
-				if (shouldCapture && screenshots.length < maxScreenshots) {
-					canvas.toBlob(
-						(blob) => {
-							if (blob) {
-								screenshots.push(blob);
-								const url = URL.createObjectURL(blob);
-								onFrameCaptured(blob, url);
-							}
-							resolve();
-						},
-						"image/jpeg",
-						0.8
-					);
-				} else {
-					resolve();
-				}
+			if (!shouldCapture) {
+				noNewScreenshotCount++;
+			} else {
+				noNewScreenshotCount = 0;
 
-				previousImageData = currentImageData;
-			};
-		});
+				// Keep only the fully built slide when bullet points are revealed one at a time
+				replacesPrevious = progressiveBuild && screenshots.length > 0;
+			}
+		} else {
+			shouldCapture = true; // First frame
+		}
+
+		if (!shouldCapture || (!replacesPrevious && screenshots.length >= maxScreenshots)) return;
+
+		// Coarse sampling only tells us the change happened since the last sample; narrow it down
+		let changeTime = time;
+		if (difference !== null && refineChangeTimes && unchangedTime !== null) {
+			changeTime = await refineChangeTime(reader, unchangedTime, time, {
+				differenceThreshold,
+				region,
+				comparator,
+				suppressCursor,
+			});
+		}
+
+		// Time of the frame the reader is left at
+		let frameTime = time;
+
+		// Skip half-faded transition frames: keep the picture once it has stopped changing
+		if (difference !== null && settleDuration > 0 && (await reader.seek(changeTime))) {
+			referenceTime = await waitUntilSettled(reader, changeTime, {
+				settleDuration,
+				differenceThreshold,
+				region,
+				comparator,
+				suppressCursor,
+			});
+
+			// Later samples are compared to the settled picture rather than the transition frame
+			if (reader.frame) {
+				await engine.compare(EXTRACTION_CHANNEL, reader.frame, { region, comparator, suppressCursor });
+			}
+			frameTime = referenceTime;
+		} else if (changeTime !== time) {
+			await reader.seek(time);
+		}
+
+		// Motion blur and compression artifacts vary from frame to frame within a slide
+		if (selectSharpestFrame) {
+			const sharpestTime = await findSharpestFrameTime(reader, frameTime, {
+				candidates: DEFAULT_SHARPNESS_CANDIDATES,
+				cropRect,
+				differenceThreshold,
+				region,
+				comparator,
+				suppressCursor,
+			});
+			await reader.seek(sharpestTime);
+			frameTime = sharpestTime;
+		}
+
+		const frame = reader.frame;
+		if (!frame) return;
+
+		// Draw current frame at full resolution for export; the engine diffs a downscaled copy
+		drawRegionFrame(frame, canvas, context, cropRect);
+
+		if (suppressCursor) {
+			await paintOutCursor(reader, frameTime, canvas, context, { cropRect, differenceThreshold, region, comparator });
+		}
+
+		// Fades to black and empty title cards pass the diff test but are not slides
+		const contentStats = measureFrameContent(canvas, canvas.width, canvas.height);
+		if (isBlankFrame(contentStats)) {
+			blankFrameCount++;
+			return;
+		}
+
+		const hash = computeDHash(canvas);
+		const blob = await canvasToBlob(canvas);
+		if (!blob) return;
+
+		if (replacesPrevious && onFrameReplaced) {
+			const previous = screenshots[screenshots.length - 1];
+			const slide = createCapturedSlide({
+				blob,
+				source: "local-video",
+				time: previous.startTime,
+				score: previous.score,
+				width: canvas.width,
+				height: canvas.height,
+				hash,
+				contentClass: classifyFrameContent(contentStats),
+			});
+			URL.revokeObjectURL(previous.url);
+			screenshots[screenshots.length - 1] = slide;
+			onFrameReplaced(slide);
+		} else {
+			const slide = createCapturedSlide({
+				blob,
+				source: "local-video",
+				time: changeTime,
+				score: difference,
+				width: canvas.width,
+				height: canvas.height,
+				hash,
+				contentClass: classifyFrameContent(contentStats),
+			});
+			screenshots.push(slide);
+			onFrameCaptured(slide);
+		}
 	};
 
 	// Extract frames
-	while (currentTime <= totalDuration && screenshots.length < maxScreenshots) {
-		await captureFrame(currentTime);
+	try {
+		if (whiteboardMode) {
+			const boards = await extractWhiteboardSlides(
+				reader,
+				canvas,
+				context,
+				cropRect,
+				{ captureInterval, maxScreenshots, cleanBackground: cleanWhiteboard },
+				{ onProgress, onFrameCaptured }
+			);
+			screenshots.push(...boards);
+		}
 
-		// Update progress
-		const progress = Math.round((currentTime / totalDuration) * 100);
-		onProgress(progress);
+		while (!whiteboardMode && currentTime <= totalDuration && screenshots.length < maxScreenshots) {
+			await captureFrame(currentTime);
 
-		currentTime += captureInterval;
+			// Update progress
+			const progress = Math.round((currentTime / totalDuration) * 100);
+			onProgress(progress);
 
-		// Stop if no new screenshots for too long
-		if (noNewScreenshotCount > 20) {
-			break;
+			// Continue after the settled frame when waiting for a transition looked past the next sample
+			currentTime = Math.max(currentTime, referenceTime ?? 0) + captureInterval;
+
+			// Stop if no new screenshots for too long
+			if (noNewScreenshotCount > 20) {
+				break;
+			}
 		}
+	} finally {
+		reader.dispose();
+	}
+
+	if (reader.skippedTimes.length > 0) {
+		console.warn(`Skipped ${reader.skippedTimes.length} timestamps that could not be seeked`, reader.skippedTimes);
 	}
 
-	onComplete(screenshots);
+	const timedSlides = finalizeSlideTimings(screenshots, totalDuration);
+	const completedSlides = stitchScrolling ? await stitchScrollingSlides(timedSlides) : timedSlides;
+
+	onComplete(completedSlides, [...reader.skippedTimes], blankFrameCount);
 }
 
 // Enhanced helper to get file extension from MIME type
@@ -306,6 +914,31 @@ function getExtensionFromBlob(blob: Blob): string | null {
 	return null;
 }
 
+// Load the FFmpeg wasm core, falling back to a second CDN
+async function loadFFmpegCore(ffmpeg: FFmpeg): Promise<void> {
+	const { toBlobURL } = await import("@ffmpeg/util");
+
+	console.log("Loading FFmpeg...");
+	const baseURL = "https://unpkg.com/@ffmpeg/core@0.12.10/dist/umd";
+
+	try {
+		await ffmpeg.load({
+			coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, "text/javascript"),
+			wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, "application/wasm"),
+		});
+	} catch {
+		console.error("Failed to load from unpkg, trying alternative CDN...");
+		// Fallback to alternative CDN
+		const altBaseURL = "https://cdn.jsdelivr.net/npm/@ffmpeg/core@0.12.10/dist/umd";
+		await ffmpeg.load({
+			coreURL: await toBlobURL(`${altBaseURL}/ffmpeg-core.js`, "text/javascript"),
+			wasmURL: await toBlobURL(`${altBaseURL}/ffmpeg-core.wasm`, "application/wasm"),
+		});
+	}
+
+	console.log("FFmpeg loaded successfully");
+}
+
 // FFmpeg conversion utilities (client-side only)
 export async function convertToMp4(
 	inputBlob: Blob,
@@ -320,7 +953,7 @@ export async function convertToMp4(
 	try {
 		// Dynamic import for FFmpeg to avoid SSR issues
 		const { FFmpeg } = await import("@ffmpeg/ffmpeg");
-		const { fetchFile, toBlobURL } = await import("@ffmpeg/util");
+		const { fetchFile } = await import("@ffmpeg/util");
 
 		const ffmpeg = new FFmpeg();
 
@@ -374,25 +1007,7 @@ export async function convertToMp4(
 		}
 
 		// Load FFmpeg with enhanced error handling
-		console.log("Loading FFmpeg...");
-		const baseURL = "https://unpkg.com/@ffmpeg/core@0.12.10/dist/umd";
-
-		try {
-			await ffmpeg.load({
-				coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, "text/javascript"),
-				wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, "application/wasm"),
-			});
-		} catch {
-			console.error("Failed to load from unpkg, trying alternative CDN...");
-			// Fallback to alternative CDN
-			const altBaseURL = "https://cdn.jsdelivr.net/npm/@ffmpeg/core@0.12.10/dist/umd";
-			await ffmpeg.load({
-				coreURL: await toBlobURL(`${altBaseURL}/ffmpeg-core.js`, "text/javascript"),
-				wasmURL: await toBlobURL(`${altBaseURL}/ffmpeg-core.wasm`, "application/wasm"),
-			});
-		}
-
-		console.log("FFmpeg loaded successfully");
+		await loadFFmpegCore(ffmpeg);
 
 		// Enhanced format detection
 		const inputExt = inputFormat || getExtensionFromMime(inputBlob.type) || getExtensionFromBlob(inputBlob) || "webm";
@@ -549,6 +1164,116 @@ export async function convertToMp4(
 	}
 }
 
+// Extract the audio track as 16 kHz mono WAV, the input Whisper-style recognizers expect; null if there is none
+export async function extractAudioTrack(
+	inputBlob: Blob,
+	onProgress?: (progress: number) => void,
+	inputFormat?: string
+): Promise<Blob | null> {
+	if (typeof window === "undefined") {
+		throw new Error("FFmpeg can only be used on the client side");
+	}
+
+	const { FFmpeg } = await import("@ffmpeg/ffmpeg");
+	const { fetchFile } = await import("@ffmpeg/util");
+
+	const ffmpeg = new FFmpeg();
+
+	if (onProgress) {
+		ffmpeg.on("progress", ({ progress }: { progress: number }) => {
+			if (typeof progress === "number" && isFinite(progress)) {
+				onProgress(Math.max(0, Math.min(100, Math.round(progress * 100))));
+			}
+		});
+	}
+
+	try {
+		await loadFFmpegCore(ffmpeg);
+
+		const inputExt = inputFormat || getExtensionFromMime(inputBlob.type) || getExtensionFromBlob(inputBlob) || "mp4";
+		const inputFileName = `input.${inputExt}`;
+		const outputFileName = "audio.wav";
+
+		await ffmpeg.writeFile(inputFileName, await fetchFile(inputBlob));
+
+		const exitCode = await ffmpeg.exec([
+			"-i",
+			inputFileName,
+			"-vn",
+			"-ac",
+			"1",
+			"-ar",
+			"16000",
+			"-c:a",
+			"pcm_s16le",
+			"-f",
+			"wav",
+			outputFileName,
+		]);
+
+		// FFmpeg fails with "Output file does not contain any stream" when there is no audio track
+		if (exitCode !== 0) {
+			console.log("No audio track could be extracted");
+			return null;
+		}
+
+		const data = (await ffmpeg.readFile(outputFileName)) as Uint8Array;
+
+		// A bare 44-byte WAV header carries no samples
+		if (!data || data.length <= 44) return null;
+
+		return new Blob([data as BlobPart], { type: "audio/wav" });
+	} catch (error) {
+		console.error("Error extracting audio:", error);
+
+		if (error instanceof Error && error.message.includes("network")) {
+			throw new Error("网络错误：无法下载FFmpeg组件，请检查网络连接");
+		}
+
+		throw error;
+	} finally {
+		ffmpeg.terminate();
+	}
+}
+
+export interface AudioAnalysis {
+	hasAudio: boolean;
+	peaks: number[];
+	// Empty when no transcription backend was used
+	transcript: TranscriptSegment[];
+}
+
+// Extract the audio track, measure its peaks and, given a backend, transcribe it
+export async function analyzeAudioTrack(
+	videoFile: File | Blob,
+	options: {
+		transcriptionBackend?: TranscriptionBackend;
+		language?: string;
+		onProgress?: (progress: number) => void;
+	} = {}
+): Promise<AudioAnalysis> {
+	const { transcriptionBackend, language, onProgress } = options;
+
+	const audio = await extractAudioTrack(videoFile, (progress) => onProgress?.(Math.round(progress * 0.5)));
+	if (!audio) {
+		return { hasAudio: false, peaks: [], transcript: [] };
+	}
+
+	const peaks = await computeAudioPeaks(audio);
+	onProgress?.(50);
+
+	let transcript: TranscriptSegment[] = [];
+	if (transcriptionBackend) {
+		console.log(`Transcribing ${(audio.size / 1024 / 1024).toFixed(1)}MB of audio with ${transcriptionBackend.id}`);
+		transcript = await transcriptionBackend.transcribe(audio, { language });
+		console.log(`Transcribed ${transcript.length} segments`);
+	}
+
+	onProgress?.(100);
+
+	return { hasAudio: true, peaks, transcript };
+}
+
 export interface VideoAnalysisResult {
 	keyFrames: string[];
 	scenes: Array<{
@@ -556,14 +1281,14 @@ export interface VideoAnalysisResult {
 		endTime: number;
 		thumbnail: string;
 	}>;
-	audioAnalysis?: {
-		hasAudio: boolean;
-		peaks: number[];
-	};
+	audioAnalysis?: AudioAnalysis;
 }
 
 // Advanced video analysis using WebAV
-export async function analyzeVideoContent(videoFile: File | Blob): Promise<VideoAnalysisResult> {
+export async function analyzeVideoContent(
+	videoFile: File | Blob,
+	options: { transcriptionBackend?: TranscriptionBackend } = {}
+): Promise<VideoAnalysisResult> {
 	// Check if we're on the client side
 	if (typeof window === "undefined") {
 		throw new Error("Video analysis can only be performed on the client side");
@@ -576,13 +1301,18 @@ export async function analyzeVideoContent(videoFile: File | Blob): Promise<Video
 		// Use WebAV for processing
 		const result = await processVideoWithWebAV(file);
 
+		// Audio is a bonus: the visual analysis is still useful if FFmpeg or the recognizer is unavailable
+		let audioAnalysis: AudioAnalysis | undefined;
+		try {
+			audioAnalysis = await analyzeAudioTrack(file, { transcriptionBackend: options.transcriptionBackend });
+		} catch (error) {
+			console.warn("Audio analysis failed:", error);
+		}
+
 		return {
 			keyFrames: result.frames,
 			scenes: result.scenes,
-			audioAnalysis: {
-				hasAudio: true, // WebAV will determine this
-				peaks: [],
-			},
+			audioAnalysis,
 		};
 	} catch (error) {
 		console.error("Error analyzing video content:", error);
@@ -590,55 +1320,123 @@ export async function analyzeVideoContent(videoFile: File | Blob): Promise<Video
 	}
 }
 
-// Preprocess video to calculate dynamic threshold (from original video2ppt)
-export async function preprocessVideo(video: HTMLVideoElement, canvas: HTMLCanvasElement): Promise<number> {
-	const context = canvas.getContext("2d");
-	if (!context) throw new Error("Cannot get canvas context");
+// What to look for when no crop was drawn: nothing, letterbox bars, or letterbox bars and the shared screen
+export type AutoCropMode = "none" | "letterbox" | "slide-area";
 
-	canvas.width = video.videoWidth;
-	canvas.height = video.videoHeight;
+export interface PreprocessResult {
+	threshold: number;
+	// Crop detected when none was drawn: inside letterbox bars (e.g. 4:3 slides in a 16:9 video) and, if asked
+	// for, around the shared screen. The threshold is computed for this crop.
+	autoCrop: FrameRegion | null;
+	// Sample timestamps the video could not be seeked to
+	skippedTimes: number[];
+}
+
+// Sampled frames are kept at this width while the crop is still being detected
+const PREPROCESS_SNAPSHOT_WIDTH = 640;
 
-	const totalDuration = video.duration;
+// Preprocess video to calculate dynamic threshold (from original video2ppt) and detect the slide area
+export async function preprocessVideo(
+	video: HTMLVideoElement,
+	canvas: HTMLCanvasElement,
+	regionSettings?: RegionSettings,
+	comparatorId?: FrameComparatorId,
+	// The video's file, for sequential WebCodecs decoding where supported
+	file?: Blob,
+	autoCropMode: AutoCropMode = "letterbox"
+): Promise<PreprocessResult> {
+	const comparator = getFrameComparator(comparatorId);
+
+	// Layout analysis always looks at the full frame, independent of the current crop
+	const layoutContext = canvas.getContext("2d", { willReadFrequently: true });
+	if (!layoutContext) throw new Error("Cannot get canvas context");
+
+	const engine = getFrameDiffEngine();
+	engine.reset(PREPROCESS_CHANNEL);
+
+	const { reader, region } = await openFrameReader(video, file, regionSettings);
+	const totalDuration = reader.duration;
 	const sampleCount = Math.min(50, Math.max(20, Math.floor(totalDuration / 10)));
 	const preProcessInterval = totalDuration / sampleCount;
 
+	// A detected crop is only known after sampling, so the samples are kept and diffed afterwards
+	const canAutoCrop = autoCropMode !== "none" && !regionSettings?.crop && !regionSettings?.keystone;
+	const snapshots: HTMLCanvasElement[] = [];
+
 	let currentTime = 0;
-	let previousImageData: ImageData | null = null;
 	const differences: number[] = [];
+	const layoutGrids: LuminanceGrid[] = [];
+	const borderSamples: FrameBorders[] = [];
 
-	const capturePreProcessFrame = async (time: number): Promise<void> => {
-		return new Promise((resolve) => {
-			video.currentTime = time;
-
-			video.onseeked = () => {
-				context.drawImage(video, 0, 0, canvas.width, canvas.height);
-				const currentImageData = context.getImageData(0, 0, canvas.width, canvas.height);
-
-				if (previousImageData) {
-					const difference = calculateImageDifference(previousImageData, currentImageData);
-					differences.push(difference);
-				}
-
-				previousImageData = currentImageData;
-				resolve();
-			};
+	const compareSample = async (frame: DecodedFrame, sampleRegion?: RegionSettings): Promise<void> => {
+		const { difference } = await engine.compare(PREPROCESS_CHANNEL, frame, {
+			region: sampleRegion,
+			comparator: comparator.id,
 		});
+		if (difference !== null) {
+			differences.push(difference);
+		}
+	};
+
+	const capturePreProcessFrame = async (time: number): Promise<void> => {
+		const frame = await reader.seek(time);
+		if (!frame) return;
+
+		layoutGrids.push(sampleLuminanceGrid(frame, canvas, layoutContext));
+		const borders = measureFrameBorders(frame, canvas, layoutContext);
+		if (borders) borderSamples.push(borders);
+
+		if (canAutoCrop) {
+			const { width, height } = getFrameSize(frame);
+			const snapshot = document.createElement("canvas");
+			snapshot.width = Math.min(PREPROCESS_SNAPSHOT_WIDTH, width);
+			snapshot.height = Math.max(1, Math.round((snapshot.width * height) / width));
+			snapshot.getContext("2d")?.drawImage(frame, 0, 0, snapshot.width, snapshot.height);
+			snapshots.push(snapshot);
+		} else {
+			await compareSample(frame, region);
+		}
 	};
 
 	// Sample frames for threshold calculation
-	while (currentTime <= totalDuration && differences.length < sampleCount) {
-		await capturePreProcessFrame(currentTime);
-		currentTime += preProcessInterval;
+	try {
+		while (currentTime <= totalDuration && (canAutoCrop ? snapshots.length : differences.length) < sampleCount) {
+			await capturePreProcessFrame(currentTime);
+			currentTime += preProcessInterval;
+		}
+	} finally {
+		reader.dispose();
 	}
 
-	if (differences.length === 0) return 30; // Default threshold
+	let autoCrop: FrameRegion | null = null;
+	if (canAutoCrop) {
+		const contentArea = detectLetterbox(borderSamples);
+		const slideArea = autoCropMode === "slide-area" ? detectSlideArea(layoutGrids) : null;
+		autoCrop =
+			slideArea && contentArea ? (intersectRegions(slideArea, contentArea) ?? slideArea) : (slideArea ?? contentArea);
+	}
+	const skippedTimes = [...reader.skippedTimes];
+
+	if (canAutoCrop) {
+		const sampleRegion = { ...EMPTY_REGION_SETTINGS, ...regionSettings, crop: autoCrop };
+		for (const snapshot of snapshots) {
+			await compareSample(snapshot, sampleRegion);
+			// Release the canvas memory right away
+			snapshot.width = 0;
+			snapshot.height = 0;
+		}
+	}
+
+	if (differences.length === 0) {
+		return { threshold: comparator.defaultThreshold, autoCrop, skippedTimes }; // Default threshold
+	}
 
 	// Calculate dynamic threshold
 	const sortedDifferences = [...differences].sort((a, b) => a - b);
 	const medianDiff = sortedDifferences[Math.floor(sortedDifferences.length / 2)];
 
-	// Use median as base threshold, with reasonable bounds
-	const finalThreshold = Math.max(10, Math.min(medianDiff, 60));
+	// Use median as base threshold, with reasonable bounds for the selected metric
+	const finalThreshold = Math.max(comparator.minThreshold, Math.min(medianDiff, comparator.maxThreshold));
 
-	return finalThreshold;
+	return { threshold: finalThreshold, autoCrop, skippedTimes };
 }
@@ -0,0 +1,135 @@
+// Whiteboard and drawing-tablet lectures: measure how much ink is on the board and clean up the background
+
+import type { PixelRect } from "./frame-region";
+import { luminanceAt } from "./utils";
+
+// Ink is measured on a copy no wider than this
+const INK_MAX_WIDTH = 480;
+
+// Background is estimated per block so uneven lighting across the board does not count as ink
+const BLOCK_SIZE = 16;
+const CLEANUP_BLOCK_SIZE = 32;
+
+// Luminance distance from the block background from which a pixel counts as ink
+const INK_TOLERANCE = 40;
+
+// Normalized pixels at least this bright become pure white during cleanup
+const WHITE_LEVEL = 210;
+
+let inkCanvas: HTMLCanvasElement | null = null;
+
+// Most common luminance of a block, in steps of 8
+function blockBackground(
+	data: Uint8ClampedArray,
+	width: number,
+	x0: number,
+	y0: number,
+	x1: number,
+	y1: number
+): number {
+	const histogram = new Uint32Array(32);
+	for (let y = y0; y < y1; y++) {
+		for (let x = x0; x < x1; x++) {
+			histogram[Math.min(31, Math.floor(luminanceAt(data, (y * width + x) * 4) / 8))]++;
+		}
+	}
+	return histogram.indexOf(Math.max(...histogram)) * 8 + 4;
+}
+
+// Fraction of the board covered with ink (or anything else that stands out from the board)
+export function calculateInkCoverage(imageData: ImageData): number {
+	const { data, width, height } = imageData;
+	let inkPixels = 0;
+
+	for (let blockY = 0; blockY < height; blockY += BLOCK_SIZE) {
+		for (let blockX = 0; blockX < width; blockX += BLOCK_SIZE) {
+			const x1 = Math.min(width, blockX + BLOCK_SIZE);
+			const y1 = Math.min(height, blockY + BLOCK_SIZE);
+			const background = blockBackground(data, width, blockX, blockY, x1, y1);
+
+			for (let y = blockY; y < y1; y++) {
+				for (let x = blockX; x < x1; x++) {
+					if (Math.abs(luminanceAt(data, (y * width + x) * 4) - background) > INK_TOLERANCE) {
+						inkPixels++;
+					}
+				}
+			}
+		}
+	}
+
+	return inkPixels / (width * height);
+}
+
+// Ink coverage of the cropped area of a frame
+export function measureInkCoverage(frame: CanvasImageSource, cropRect: PixelRect): number {
+	if (!inkCanvas) {
+		inkCanvas = document.createElement("canvas");
+	}
+
+	const context = inkCanvas.getContext("2d", { willReadFrequently: true });
+	if (!context) throw new Error("Cannot get canvas context");
+
+	const scale = Math.min(1, INK_MAX_WIDTH / cropRect.width);
+	inkCanvas.width = Math.max(1, Math.round(cropRect.width * scale));
+	inkCanvas.height = Math.max(1, Math.round(cropRect.height * scale));
+	context.drawImage(
+		frame,
+		cropRect.x,
+		cropRect.y,
+		cropRect.width,
+		cropRect.height,
+		0,
+		0,
+		inkCanvas.width,
+		inkCanvas.height
+	);
+
+	return calculateInkCoverage(context.getImageData(0, 0, inkCanvas.width, inkCanvas.height));
+}
+
+// Divide out the board colour and lighting per block, then turn what is left of the board pure white.
+// Meant for light boards; a blackboard would come out washed out.
+export function cleanWhiteboardBackground(canvas: HTMLCanvasElement, context: CanvasRenderingContext2D): void {
+	const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+	const { data, width, height } = imageData;
+
+	for (let blockY = 0; blockY < height; blockY += CLEANUP_BLOCK_SIZE) {
+		for (let blockX = 0; blockX < width; blockX += CLEANUP_BLOCK_SIZE) {
+			const x1 = Math.min(width, blockX + CLEANUP_BLOCK_SIZE);
+			const y1 = Math.min(height, blockY + CLEANUP_BLOCK_SIZE);
+
+			// The board colour is the average of the pixels around the block's background luminance
+			const background = blockBackground(data, width, blockX, blockY, x1, y1);
+			const sums = [0, 0, 0];
+			let count = 0;
+			for (let y = blockY; y < y1; y++) {
+				for (let x = blockX; x < x1; x++) {
+					const i = (y * width + x) * 4;
+					if (Math.abs(luminanceAt(data, i) - background) <= 8) {
+						sums[0] += data[i];
+						sums[1] += data[i + 1];
+						sums[2] += data[i + 2];
+						count++;
+					}
+				}
+			}
+			const board = sums.map((sum) => Math.max(1, sum / Math.max(1, count)));
+
+			for (let y = blockY; y < y1; y++) {
+				for (let x = blockX; x < x1; x++) {
+					const i = (y * width + x) * 4;
+					for (let c = 0; c < 3; c++) {
+						data[i + c] = Math.min(255, (data[i + c] * 255) / board[c]);
+					}
+					if (luminanceAt(data, i) >= WHITE_LEVEL) {
+						data[i] = 255;
+						data[i + 1] = 255;
+						data[i + 2] = 255;
+					}
+				}
+			}
+		}
+	}
+
+	context.putImageData(imageData, 0, 0);
+}
@@ -0,0 +1,25 @@
+// Copy the tesseract.js worker and the LSTM builds of its core into public/ so OCR runs without a CDN.
+// Runs after every install, so the copies always match the installed tesseract.js version.
+
+import { copyFileSync, mkdirSync } from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+
+const require = createRequire(import.meta.url);
+const tesseractRequire = createRequire(require.resolve("tesseract.js/package.json"));
+
+const workerDir = path.join(path.dirname(require.resolve("tesseract.js/package.json")), "dist");
+const coreDir = path.dirname(tesseractRequire.resolve("tesseract.js-core/package.json"));
+
+const outputDir = path.join(process.cwd(), "public", "tesseract");
+mkdirSync(path.join(outputDir, "core"), { recursive: true });
+
+for (const file of ["worker.min.js", "worker.min.js.LICENSE.txt"]) {
+	copyFileSync(path.join(workerDir, file), path.join(outputDir, file));
+}
+
+// tesseract.js picks one of these by browser support; OCR only uses the LSTM engine
+for (const variant of ["relaxedsimd-lstm", "simd-lstm", "lstm"]) {
+	const file = `tesseract-core-${variant}.wasm.js`;
+	copyFileSync(path.join(coreDir, file), path.join(outputDir, "core", file));
+}